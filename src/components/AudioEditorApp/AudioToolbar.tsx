@@ -1,31 +1,78 @@
 import { Button } from "@cloudflare/kumo/components/button";
+import { Select } from "@cloudflare/kumo/components/select";
+import { Switch } from "@cloudflare/kumo/components/switch";
 import { Tooltip } from "@cloudflare/kumo/components/tooltip";
+import {
+  ArrowClockwiseIcon,
+  ArrowCounterClockwiseIcon,
+} from "@phosphor-icons/react";
 import {
   type ExportFormat,
   FORMAT_DESCRIPTIONS,
 } from "../../utils/audioProcessing";
+import type { WavBitDepth, WavOptions } from "../../utils/wavEncoder";
 import {
   buttonGroupStyles,
   infoTextStyles,
   toolbarStyles,
 } from "./audioEditorStyles";
+import type { SaveStatus } from "./useSessionAutosave";
+
+const WAV_BIT_DEPTHS: { value: WavBitDepth; label: string }[] = [
+  { value: 16, label: "16-bit" },
+  { value: 24, label: "24-bit" },
+  { value: 32, label: "32-bit float" },
+];
+
+const OUTPUT_SAMPLE_RATES = [8000, 16000, 22050, 32000, 44100, 48000, 96000];
+
+function describeSaveStatus(status: SaveStatus): string {
+  switch (status.state) {
+    case "saving":
+      return "Saving…";
+    case "saved":
+      return "Saved";
+    case "full":
+      return "Not saved: browser storage is full. Delete old projects from Recent projects on the upload screen to make room";
+    case "error":
+      return `Not saved: ${status.message}`;
+  }
+}
 
 interface AudioToolbarProps {
   audioData: { file: File; buffer: AudioBuffer } | null;
+  saveStatus: SaveStatus | null; // auto-save of the open session
   duration: number;
   isOpusLoading: boolean;
   isWavLoading: boolean;
   onDownload: (format: ExportFormat) => void;
+  wavOptions: WavOptions;
+  onWavOptionsChange: (options: WavOptions) => void;
+  outputSampleRate: number | null; // null keeps the source rate
+  onOutputSampleRateChange: (sampleRate: number | null) => void;
   onReset: () => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 export default function AudioToolbar({
   audioData,
+  saveStatus,
   duration,
   isOpusLoading,
   isWavLoading,
   onDownload,
+  wavOptions,
+  onWavOptionsChange,
+  outputSampleRate,
+  onOutputSampleRateChange,
   onReset,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
 }: AudioToolbarProps) {
   return (
     <div className={toolbarStyles()}>
@@ -34,13 +81,51 @@ export default function AudioToolbar({
           <>
             <strong>{audioData.file.name}</strong> &middot;{" "}
             {duration.toFixed(2)}s &middot; {audioData.buffer.sampleRate} Hz
+            {outputSampleRate !== null &&
+              outputSampleRate !== audioData.buffer.sampleRate &&
+              ` → ${outputSampleRate} Hz`}{" "}
             &middot; {audioData.buffer.numberOfChannels}ch
+            {saveStatus && <> &middot; {describeSaveStatus(saveStatus)}</>}
           </>
         ) : (
           "No audio selected"
         )}
       </p>
       <div className={buttonGroupStyles()}>
+        <Tooltip
+          content={
+            undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Nothing to undo"
+          }
+          side="bottom"
+          asChild
+        >
+          <Button
+            onClick={onUndo}
+            disabled={!undoLabel}
+            type="button"
+            variant="secondary"
+            shape="square"
+            icon={ArrowCounterClockwiseIcon}
+            aria-label={undoLabel ? `Undo: ${undoLabel}` : "Undo"}
+          />
+        </Tooltip>
+        <Tooltip
+          content={
+            redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"
+          }
+          side="bottom"
+          asChild
+        >
+          <Button
+            onClick={onRedo}
+            disabled={!redoLabel}
+            type="button"
+            variant="secondary"
+            shape="square"
+            icon={ArrowClockwiseIcon}
+            aria-label={redoLabel ? `Redo: ${redoLabel}` : "Redo"}
+          />
+        </Tooltip>
         <Tooltip content={FORMAT_DESCRIPTIONS.opus} side="bottom" asChild>
           <Button
             onClick={() => onDownload("opus")}
@@ -63,6 +148,54 @@ export default function AudioToolbar({
             Export WAV
           </Button>
         </Tooltip>
+        <Select
+          aria-label="Output sample rate"
+          value={
+            outputSampleRate === null ? "source" : String(outputSampleRate)
+          }
+          onValueChange={(val) =>
+            onOutputSampleRateChange(val === "source" ? null : Number(val))
+          }
+        >
+          <Select.Option value="source">Source rate</Select.Option>
+          {OUTPUT_SAMPLE_RATES.map((rate) => (
+            <Select.Option key={rate} value={String(rate)}>
+              {rate / 1000} kHz
+            </Select.Option>
+          ))}
+        </Select>
+        <Select
+          aria-label="WAV bit depth"
+          value={String(wavOptions.bitDepth)}
+          onValueChange={(val) =>
+            onWavOptionsChange({
+              ...wavOptions,
+              bitDepth: Number(val) as WavBitDepth,
+            })
+          }
+        >
+          {WAV_BIT_DEPTHS.map((d) => (
+            <Select.Option key={d.value} value={String(d.value)}>
+              {d.label}
+            </Select.Option>
+          ))}
+        </Select>
+        {wavOptions.bitDepth !== 32 && (
+          <Tooltip
+            content="TPDF dither is always applied; noise shaping moves it towards less audible frequencies"
+            side="bottom"
+            asChild
+          >
+            <Switch
+              size="sm"
+              label="Noise shaping"
+              checked={wavOptions.noiseShaping}
+              onCheckedChange={(noiseShaping) =>
+                onWavOptionsChange({ ...wavOptions, noiseShaping })
+              }
+            />
+          </Tooltip>
+        )}
         <Button
           onClick={onReset}
           disabled={!audioData || isOpusLoading || isWavLoading}
@@ -4,7 +4,7 @@ import { cva } from "class-variance-authority";
 import { useDropzone } from "react-dropzone";
 
 interface AudioUploadProps {
-  onAudioSelected: (file: File) => void;
+  onAudioSelected: (files: File[]) => void;
 }
 
 const dropzoneStyles = cva([
@@ -35,7 +35,7 @@ const dropzoneTextStyles = cva([], {
 export default function AudioUpload({ onAudioSelected }: AudioUploadProps) {
   const onDrop = (acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      onAudioSelected(acceptedFiles[0]);
+      onAudioSelected(acceptedFiles);
     }
   };
 
@@ -44,7 +44,7 @@ export default function AudioUpload({ onAudioSelected }: AudioUploadProps) {
     accept: {
       "audio/*": [],
     },
-    multiple: false,
+    multiple: true,
   });
 
   return (
@@ -58,7 +58,8 @@ export default function AudioUpload({ onAudioSelected }: AudioUploadProps) {
         data-drag-active={isDragActive}
         className={dropzoneTextStyles({ type: "primary", visibleWhen: "idle" })}
       >
-        Drag & drop an audio file here, or click to select
+        Drag & drop audio files here, or click to select. Several files are
+        joined into one timeline.
       </p>
       <p
         data-drag-active={isDragActive}
@@ -77,7 +78,7 @@ export default function AudioUpload({ onAudioSelected }: AudioUploadProps) {
           visibleWhen: "active",
         })}
       >
-        Drop the audio file here ...
+        Drop the audio files here ...
       </p>
     </div>
   );
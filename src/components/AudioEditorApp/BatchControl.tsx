@@ -0,0 +1,180 @@
+import { Button } from "@cloudflare/kumo/components/button";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Select } from "@cloudflare/kumo/components/select";
+import { useDropzone } from "react-dropzone";
+import type { ExportFormat } from "../../utils/audioProcessing";
+import type { BatchCropMode } from "../../utils/batch";
+import {
+  controlRowStyles,
+  fadeControlsStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+import type { BatchItem, BatchStatus } from "./useBatchExport";
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "wav", label: "WAV" },
+  { value: "opus", label: "Opus" },
+];
+
+function describeStatus(status: BatchStatus): string {
+  switch (status.state) {
+    case "pending":
+      return "Waiting";
+    case "processing":
+      return "Processing…";
+    case "done":
+      return `Done → ${status.name}`;
+    case "error":
+      return `Failed: ${status.message}`;
+  }
+}
+
+interface BatchControlProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  crop: BatchCropMode;
+  format: ExportFormat;
+  trimStart: number; // seconds, from the current crop
+  trimEnd: number; // seconds
+  onCropChange: (crop: BatchCropMode) => void;
+  onFormatChange: (format: ExportFormat) => void;
+  onAddFiles: (files: File[]) => void;
+  onClear: () => void;
+  onRun: () => void;
+}
+
+export default function BatchControl({
+  items,
+  isRunning,
+  crop,
+  format,
+  trimStart,
+  trimEnd,
+  onCropChange,
+  onFormatChange,
+  onAddFiles,
+  onClear,
+  onRun,
+}: BatchControlProps) {
+  const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
+    onDrop: (acceptedFiles: File[]) => {
+      if (acceptedFiles.length > 0) onAddFiles(acceptedFiles);
+    },
+    accept: {
+      "audio/*": [],
+    },
+    noClick: true,
+    noKeyboard: true,
+    disabled: isRunning,
+  });
+
+  const cropModes: { value: BatchCropMode; label: string }[] = [
+    { value: "full", label: "Whole file" },
+    {
+      value: "relative",
+      label: `Trim ${trimStart.toFixed(2)}s start, ${trimEnd.toFixed(2)}s end`,
+    },
+    { value: "silence", label: "Trim silence" },
+  ];
+
+  return (
+    <div
+      {...getRootProps()}
+      data-drag-active={isDragActive}
+      className={`${sectionStyles()} data-[drag-active=true]:border-(--accent)`}
+    >
+      <input {...getInputProps()} />
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Batch export</p>
+        <Button
+          onClick={open}
+          disabled={isRunning}
+          type="button"
+          variant="secondary"
+          size="sm"
+        >
+          Add files
+        </Button>
+      </div>
+      <p className="text-[0.75rem] text-(--foreground-muted)">
+        Apply the current settings to other files and download them as one ZIP.
+        Cuts and the noise profile belong to this file and are skipped.
+      </p>
+      <div className={fadeControlsStyles()}>
+        <div className="min-w-35">
+          <Label>Crop</Label>
+          <Select
+            className="mt-1"
+            value={crop}
+            disabled={isRunning}
+            onValueChange={(val) => onCropChange(val as BatchCropMode)}
+          >
+            {cropModes.map((m) => (
+              <Select.Option key={m.value} value={m.value}>
+                {m.label}
+              </Select.Option>
+            ))}
+          </Select>
+        </div>
+        <div className="min-w-35">
+          <Label>Format</Label>
+          <Select
+            className="mt-1"
+            value={format}
+            disabled={isRunning}
+            onValueChange={(val) => onFormatChange(val as ExportFormat)}
+          >
+            {FORMATS.map((f) => (
+              <Select.Option key={f.value} value={f.value}>
+                {f.label}
+              </Select.Option>
+            ))}
+          </Select>
+        </div>
+      </div>
+      {items.length > 0 && (
+        <div className="mt-3">
+          {items.map((item, index) => (
+            <div
+              // biome-ignore lint/suspicious/noArrayIndexKey: queued files have no identity beyond their position
+              key={index}
+              className={`${controlRowStyles()} mb-1 last:mb-0`}
+            >
+              <span className="flex-1 min-w-0 truncate text-[0.85rem]">
+                {item.file.name}
+              </span>
+              <span className={timeDisplayStyles()}>
+                {describeStatus(item.status)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className={fadeControlsStyles()}>
+        <Button
+          onClick={onRun}
+          disabled={isRunning || items.length === 0}
+          loading={isRunning}
+          type="button"
+          variant="secondary"
+          size="sm"
+        >
+          {items.length === 1
+            ? "Process 1 file"
+            : `Process ${items.length} files`}
+        </Button>
+        <Button
+          onClick={onClear}
+          disabled={isRunning || items.length === 0}
+          type="button"
+          variant="ghost"
+          size="sm"
+        >
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { Input } from "@cloudflare/kumo";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Select } from "@cloudflare/kumo/components/select";
+import {
+  type AudioEditSettings,
+  BALANCE_RANGE,
+  type ChannelMode,
+  getChannelLabels,
+  getChannelRouting,
+} from "../../utils/audioProcessing";
+import {
+  fadeControlsStyles,
+  rangeContainerStyles,
+  rangeInputStyles,
+  rangeValueStyles,
+  sectionStyles,
+  sectionTitleStyles,
+} from "./audioEditorStyles";
+
+const CHANNEL_MODES: {
+  value: ChannelMode;
+  label: string;
+  minChannels: number; // source channels the mode needs
+}[] = [
+  { value: "keep", label: "Keep original", minChannels: 1 },
+  { value: "mono", label: "Mono downmix", minChannels: 2 },
+  { value: "extract", label: "Extract channel", minChannels: 2 },
+  { value: "swap", label: "Swap L/R", minChannels: 2 },
+  { value: "duplicate", label: "Duplicate to stereo", minChannels: 1 },
+];
+
+function formatBalance(balance: number): string {
+  if (Math.abs(balance) < 0.005) return "Center";
+  return `${balance < 0 ? "L" : "R"} ${Math.round(Math.abs(balance) * 100)}%`;
+}
+
+interface ChannelControlProps {
+  settings: AudioEditSettings;
+  sourceChannels: number;
+  updateChannels: (updates: Partial<AudioEditSettings["channels"]>) => void;
+}
+
+export default function ChannelControl({
+  settings,
+  sourceChannels,
+  updateChannels,
+}: ChannelControlProps) {
+  const { channels } = settings;
+  const sourceLabels = getChannelLabels(sourceChannels);
+  const outputChannels = getChannelRouting(channels, sourceChannels).length;
+  const hasChannelChoice =
+    sourceChannels > 1 &&
+    (channels.mode === "extract" || channels.mode === "duplicate");
+
+  return (
+    <div className={sectionStyles()}>
+      <p className={sectionTitleStyles()}>Channels</p>
+      <div className={`${fadeControlsStyles()} mt-0`}>
+        <div className="min-w-35">
+          <Label>Layout</Label>
+          <Select
+            className="mt-1"
+            value={channels.mode}
+            onValueChange={(val) =>
+              updateChannels({ mode: val as ChannelMode })
+            }
+          >
+            {CHANNEL_MODES.filter((m) => sourceChannels >= m.minChannels).map(
+              (m) => (
+                <Select.Option key={m.value} value={m.value}>
+                  {m.label}
+                </Select.Option>
+              ),
+            )}
+          </Select>
+        </div>
+        {hasChannelChoice && (
+          <div className="min-w-35">
+            <Label>Source channel</Label>
+            <Select
+              className="mt-1"
+              value={String(Math.min(channels.channel, sourceChannels - 1))}
+              onValueChange={(val) => updateChannels({ channel: Number(val) })}
+            >
+              {sourceLabels.map((label, ch) => (
+                <Select.Option key={label} value={String(ch)}>
+                  {label}
+                </Select.Option>
+              ))}
+            </Select>
+          </div>
+        )}
+        {outputChannels === 2 && (
+          <div className={rangeContainerStyles()}>
+            <Label>Balance</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="range"
+                {...BALANCE_RANGE}
+                value={channels.balance}
+                onChange={(e) =>
+                  updateChannels({
+                    balance: Number.parseFloat(e.target.value),
+                  })
+                }
+                onDoubleClick={() => updateChannels({ balance: 0 })}
+                className={rangeInputStyles()}
+              />
+              <span className={rangeValueStyles()}>
+                {formatBalance(channels.balance)}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
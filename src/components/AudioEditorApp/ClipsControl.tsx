@@ -0,0 +1,173 @@
+import { Button } from "@cloudflare/kumo/components/button";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Select } from "@cloudflare/kumo/components/select";
+import { useDropzone } from "react-dropzone";
+import { formatTime } from "../../utils/audioProcessing";
+import type { Clip, ClipJoin, ClipJoinMode } from "../../utils/clips";
+import {
+  controlRowStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+
+const JOIN_MODES: { value: ClipJoinMode; label: string }[] = [
+  { value: "crossfade", label: "Crossfade" },
+  { value: "gap", label: "Gap" },
+];
+
+/**
+ * Join lengths offered, in seconds. Each choice rebuilds the timeline, so
+ * there is no slider to drag through every value.
+ */
+const JOIN_DURATIONS = [0, 0.1, 0.25, 0.5, 1, 2, 3, 5];
+
+interface ClipsControlProps {
+  clips: Clip[];
+  isBusy: boolean; // a timeline change is still being applied
+  onAddFiles: (files: File[]) => void;
+  onMove: (index: number, offset: -1 | 1) => void;
+  onRemove: (index: number) => void;
+  onJoinChange: (index: number, join: ClipJoin) => void;
+}
+
+export default function ClipsControl({
+  clips,
+  isBusy,
+  onAddFiles,
+  onMove,
+  onRemove,
+  onJoinChange,
+}: ClipsControlProps) {
+  const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
+    onDrop: (acceptedFiles: File[]) => {
+      if (acceptedFiles.length > 0) onAddFiles(acceptedFiles);
+    },
+    accept: {
+      "audio/*": [],
+    },
+    noClick: true,
+    noKeyboard: true,
+    disabled: isBusy,
+  });
+
+  return (
+    <div
+      {...getRootProps()}
+      data-drag-active={isDragActive}
+      className={`${sectionStyles()} data-[drag-active=true]:border-(--accent)`}
+    >
+      <input {...getInputProps()} />
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Clips</p>
+        <Button
+          onClick={open}
+          disabled={isBusy}
+          type="button"
+          variant="secondary"
+          size="sm"
+        >
+          Add files
+        </Button>
+      </div>
+      {clips.map((clip, index) => (
+        <div
+          // biome-ignore lint/suspicious/noArrayIndexKey: clips have no identity beyond their position
+          key={index}
+          className="mb-2 last:mb-0"
+        >
+          {index > 0 && (
+            <div className={`${controlRowStyles()} mb-2`}>
+              <div className="min-w-35">
+                <Label>Join</Label>
+                <Select
+                  className="mt-1"
+                  value={clip.join.mode}
+                  disabled={isBusy}
+                  onValueChange={(val) =>
+                    onJoinChange(index, {
+                      ...clip.join,
+                      mode: val as ClipJoinMode,
+                    })
+                  }
+                >
+                  {JOIN_MODES.map((m) => (
+                    <Select.Option key={m.value} value={m.value}>
+                      {m.label}
+                    </Select.Option>
+                  ))}
+                </Select>
+              </div>
+              <div className="min-w-35">
+                <Label>Length</Label>
+                <Select
+                  className="mt-1"
+                  value={String(clip.join.duration)}
+                  disabled={isBusy}
+                  onValueChange={(val) =>
+                    onJoinChange(index, {
+                      ...clip.join,
+                      duration: Number.parseFloat(val as string),
+                    })
+                  }
+                >
+                  {JOIN_DURATIONS.map((duration) => (
+                    <Select.Option key={duration} value={String(duration)}>
+                      {duration}s
+                    </Select.Option>
+                  ))}
+                </Select>
+              </div>
+            </div>
+          )}
+          <div className={controlRowStyles()}>
+            <span className="flex-1 min-w-0 truncate text-[0.85rem]">
+              {index + 1}. {clip.file.name}
+            </span>
+            <span className={timeDisplayStyles()}>
+              {formatTime(clip.buffer.duration)}
+            </span>
+            <Button
+              onClick={() => onMove(index, -1)}
+              disabled={isBusy || index === 0}
+              type="button"
+              variant="ghost"
+              size="xs"
+              aria-label={`Move ${clip.file.name} earlier`}
+            >
+              ↑
+            </Button>
+            <Button
+              onClick={() => onMove(index, 1)}
+              disabled={isBusy || index === clips.length - 1}
+              type="button"
+              variant="ghost"
+              size="xs"
+              aria-label={`Move ${clip.file.name} later`}
+            >
+              ↓
+            </Button>
+            <Button
+              onClick={() => onRemove(index)}
+              disabled={isBusy || clips.length === 1}
+              type="button"
+              variant="ghost"
+              size="xs"
+            >
+              Remove
+            </Button>
+          </div>
+        </div>
+      ))}
+      {isBusy ? (
+        <p className={`${timeDisplayStyles()} mt-2`}>Updating timeline…</p>
+      ) : (
+        clips.length === 1 && (
+          <p className="text-[0.75rem] text-(--foreground-muted) mt-2">
+            Drop more files here to join them onto one timeline.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
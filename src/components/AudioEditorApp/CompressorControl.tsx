@@ -0,0 +1,142 @@
+import { Input } from "@cloudflare/kumo";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Switch } from "@cloudflare/kumo/components/switch";
+import { useEffect, useState } from "react";
+import {
+  type AudioEditSettings,
+  COMPRESSOR_RANGES,
+} from "../../utils/audioProcessing";
+import {
+  fadeControlsStyles,
+  rangeContainerStyles,
+  rangeInputStyles,
+  rangeValueStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+
+const PARAMS: {
+  key: keyof typeof COMPRESSOR_RANGES;
+  label: string;
+  format: (value: number) => string;
+}[] = [
+  {
+    key: "threshold",
+    label: "Threshold",
+    format: (v) => `${v.toFixed(1)} dB`,
+  },
+  {
+    key: "ratio",
+    label: "Ratio",
+    format: (v) => `${v.toFixed(1)}:1`,
+  },
+  {
+    key: "attack",
+    label: "Attack",
+    format: (v) => `${Math.round(v * 1000)} ms`,
+  },
+  {
+    key: "release",
+    label: "Release",
+    format: (v) => `${Math.round(v * 1000)} ms`,
+  },
+  {
+    key: "knee",
+    label: "Knee",
+    format: (v) => `${v} dB`,
+  },
+  {
+    key: "makeup",
+    label: "Makeup gain",
+    format: (v) => `+${v.toFixed(1)} dB`,
+  },
+];
+
+const METER_RANGE = 24; // dB of reduction the meter spans
+
+interface CompressorControlProps {
+  settings: AudioEditSettings;
+  updateCompressor: (updates: Partial<AudioEditSettings["compressor"]>) => void;
+  isPlaying: boolean;
+  getGainReduction: () => number | null;
+}
+
+export default function CompressorControl({
+  settings,
+  updateCompressor,
+  isPlaying,
+  getGainReduction,
+}: CompressorControlProps) {
+  const { compressor } = settings;
+  const [reduction, setReduction] = useState<number | null>(null);
+  const isMetering = isPlaying && compressor.enabled;
+
+  // Follow the live compressor while previewing
+  useEffect(() => {
+    if (!isMetering) return;
+    let frame = requestAnimationFrame(function poll() {
+      setReduction(getGainReduction());
+      frame = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isMetering, getGainReduction]);
+
+  const shownReduction = isMetering ? (reduction ?? 0) : null;
+
+  return (
+    <div className={sectionStyles()}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Compressor</p>
+        <Switch
+          size="sm"
+          checked={compressor.enabled}
+          onClick={() => updateCompressor({ enabled: !compressor.enabled })}
+        />
+      </div>
+      {compressor.enabled && (
+        <>
+          <div className="flex items-center gap-3">
+            <span className={timeDisplayStyles()}>Gain reduction</span>
+            <div className="relative h-2 flex-1 rounded bg-(--border-faint) overflow-hidden">
+              <div
+                className="absolute inset-y-0 right-0 bg-(--accent)"
+                style={{
+                  width: `${Math.min(1, -(shownReduction ?? 0) / METER_RANGE) * 100}%`,
+                }}
+              />
+            </div>
+            <span className={rangeValueStyles()}>
+              {shownReduction === null
+                ? "Play to meter"
+                : `${shownReduction.toFixed(1)} dB`}
+            </span>
+          </div>
+          <div className={fadeControlsStyles()}>
+            {PARAMS.map((param) => (
+              <div key={param.key} className={rangeContainerStyles()}>
+                <Label>{param.label}</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="range"
+                    {...COMPRESSOR_RANGES[param.key]}
+                    value={compressor[param.key]}
+                    onChange={(e) =>
+                      updateCompressor({
+                        [param.key]: Number.parseFloat(e.target.value),
+                      })
+                    }
+                    className={rangeInputStyles()}
+                  />
+                  <span className={rangeValueStyles()}>
+                    {param.format(compressor[param.key])}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
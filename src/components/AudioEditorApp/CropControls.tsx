@@ -2,6 +2,8 @@ import { Input } from "@cloudflare/kumo";
 import { Label } from "@cloudflare/kumo/components/label";
 import {
   type AudioEditSettings,
+  clampCropEnd,
+  clampCropStart,
   formatTime,
 } from "../../utils/audioProcessing";
 import {
@@ -42,9 +44,7 @@ export default function CropControls({
               value={settings.cropStart}
               onChange={(e) => {
                 const val = Number.parseFloat(e.target.value);
-                if (val < settings.cropEnd) {
-                  updateSetting("cropStart", val);
-                }
+                updateSetting("cropStart", clampCropStart(val, settings));
               }}
               className={rangeInputStyles()}
             />
@@ -64,9 +64,7 @@ export default function CropControls({
               value={settings.cropEnd}
               onChange={(e) => {
                 const val = Number.parseFloat(e.target.value);
-                if (val > settings.cropStart) {
-                  updateSetting("cropEnd", val);
-                }
+                updateSetting("cropEnd", clampCropEnd(val, settings, duration));
               }}
               className={rangeInputStyles()}
             />
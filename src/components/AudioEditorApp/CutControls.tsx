@@ -0,0 +1,138 @@
+import { Input } from "@cloudflare/kumo";
+import { Button } from "@cloudflare/kumo/components/button";
+import { Label } from "@cloudflare/kumo/components/label";
+import {
+  type AudioEditSettings,
+  formatTime,
+  type TimeRange,
+} from "../../utils/audioProcessing";
+import {
+  controlRowStyles,
+  rangeContainerStyles,
+  rangeInputStyles,
+  rangeValueStyles,
+  sectionStyles,
+  sectionTitleStyles,
+} from "./audioEditorStyles";
+
+const NEW_CUT_LENGTH = 0.5; // seconds
+
+interface CutControlsProps {
+  settings: AudioEditSettings;
+  cursorTime: number; // seconds, where a new cut is placed
+  updateSetting: <K extends keyof AudioEditSettings>(
+    key: K,
+    value: AudioEditSettings[K],
+  ) => void;
+}
+
+export default function CutControls({
+  settings,
+  cursorTime,
+  updateSetting,
+}: CutControlsProps) {
+  const { cropStart, cropEnd, cuts } = settings;
+
+  const addCut = () => {
+    const length = Math.min(NEW_CUT_LENGTH, (cropEnd - cropStart) / 2);
+    const center =
+      cursorTime > cropStart && cursorTime < cropEnd
+        ? cursorTime
+        : (cropStart + cropEnd) / 2;
+    const start = Math.max(cropStart, center - length / 2);
+    updateSetting("cuts", [...cuts, { start, end: start + length }]);
+  };
+
+  const updateCut = (index: number, cut: TimeRange) => {
+    updateSetting(
+      "cuts",
+      cuts.map((c, i) => (i === index ? cut : c)),
+    );
+  };
+
+  const removeCut = (index: number) => {
+    updateSetting(
+      "cuts",
+      cuts.filter((_, i) => i !== index),
+    );
+  };
+
+  return (
+    <div className={sectionStyles()}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Cuts</p>
+        <Button
+          onClick={addCut}
+          disabled={cropEnd - cropStart <= 0}
+          type="button"
+          variant="secondary"
+          size="sm"
+        >
+          Add cut
+        </Button>
+      </div>
+      {cuts.length === 0 ? (
+        <p className="text-[0.75rem] text-(--foreground-muted)">
+          Add a cut to remove a region from the middle of the crop.
+        </p>
+      ) : (
+        cuts.map((cut, index) => (
+          <div
+            // biome-ignore lint/suspicious/noArrayIndexKey: cuts have no identity beyond their position
+            key={index}
+            className={`${controlRowStyles()} mb-2 last:mb-0`}
+          >
+            <div className={rangeContainerStyles()}>
+              <Label>Start</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="range"
+                  min={cropStart}
+                  max={cropEnd}
+                  step={0.01}
+                  value={cut.start}
+                  onChange={(e) => {
+                    const val = Number.parseFloat(e.target.value);
+                    if (val < cut.end) updateCut(index, { ...cut, start: val });
+                  }}
+                  className={rangeInputStyles()}
+                />
+                <span className={rangeValueStyles()}>
+                  {formatTime(cut.start)}
+                </span>
+              </div>
+            </div>
+            <div className={rangeContainerStyles()}>
+              <Label>End</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="range"
+                  min={cropStart}
+                  max={cropEnd}
+                  step={0.01}
+                  value={cut.end}
+                  onChange={(e) => {
+                    const val = Number.parseFloat(e.target.value);
+                    if (val > cut.start) updateCut(index, { ...cut, end: val });
+                  }}
+                  className={rangeInputStyles()}
+                />
+                <span className={rangeValueStyles()}>
+                  {formatTime(cut.end)}
+                </span>
+              </div>
+            </div>
+            <Button
+              onClick={() => removeCut(index)}
+              type="button"
+              variant="secondary-destructive"
+              size="sm"
+            >
+              Remove
+            </Button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+import { Input } from "@cloudflare/kumo";
+import { Button } from "@cloudflare/kumo/components/button";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Switch } from "@cloudflare/kumo/components/switch";
+import { useRef, useState } from "react";
+import type { AudioEditSettings } from "../../utils/audioProcessing";
+import {
+  type EqBand,
+  type EqBandType,
+  getEqResponse,
+  hasEqGain,
+  hasEqQ,
+  MAX_EQ_FREQUENCY,
+  MAX_EQ_GAIN,
+  MAX_EQ_Q,
+  MIN_EQ_FREQUENCY,
+  MIN_EQ_Q,
+} from "../../utils/equalizer";
+import {
+  fadeControlsStyles,
+  rangeContainerStyles,
+  rangeInputStyles,
+  rangeValueStyles,
+  sectionStyles,
+  sectionTitleStyles,
+} from "./audioEditorStyles";
+
+const BAND_LABELS: Record<EqBandType, string> = {
+  highpass: "High-pass",
+  lowshelf: "Low shelf",
+  peaking: "Peak",
+  highshelf: "High shelf",
+  lowpass: "Low-pass",
+};
+
+// Response graph, in SVG user units
+const GRAPH_WIDTH = 600;
+const GRAPH_HEIGHT = 160;
+const GRAPH_RANGE = MAX_EQ_GAIN + 6; // dB above and below 0
+const GRAPH_POINTS = 160;
+const GRID_FREQUENCIES = [100, 1000, 10000];
+const GRID_GAINS = [-12, 0, 12];
+
+/**
+ * Position of a frequency from 0 to 1 on a log scale
+ */
+function frequencyToRatio(frequency: number): number {
+  return (
+    Math.log(frequency / MIN_EQ_FREQUENCY) /
+    Math.log(MAX_EQ_FREQUENCY / MIN_EQ_FREQUENCY)
+  );
+}
+
+function ratioToFrequency(ratio: number): number {
+  return MIN_EQ_FREQUENCY * (MAX_EQ_FREQUENCY / MIN_EQ_FREQUENCY) ** ratio;
+}
+
+function gainToY(gain: number): number {
+  const clamped = Math.max(-GRAPH_RANGE, Math.min(GRAPH_RANGE, gain));
+  return ((GRAPH_RANGE - clamped) / (2 * GRAPH_RANGE)) * GRAPH_HEIGHT;
+}
+
+function formatFrequency(frequency: number): string {
+  return frequency >= 1000
+    ? `${(frequency / 1000).toFixed(frequency >= 10000 ? 1 : 2)} kHz`
+    : `${Math.round(frequency)} Hz`;
+}
+
+function getBandLabel(bands: EqBand[], index: number): string {
+  const { type } = bands[index];
+  if (type !== "peaking") return BAND_LABELS[type];
+  const peakNumber = bands
+    .slice(0, index + 1)
+    .filter((band) => band.type === "peaking").length;
+  return `${BAND_LABELS.peaking} ${peakNumber}`;
+}
+
+interface EqualizerControlProps {
+  settings: AudioEditSettings;
+  sampleRate: number;
+  updateEq: (updates: Partial<AudioEditSettings["eq"]>) => void;
+}
+
+export default function EqualizerControl({
+  settings,
+  sampleRate,
+  updateEq,
+}: EqualizerControlProps) {
+  const { eq } = settings;
+  const [selectedBand, setSelectedBand] = useState(0);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragBandRef = useRef<number | null>(null);
+  const band = eq.bands[Math.min(selectedBand, eq.bands.length - 1)];
+
+  const updateBand = (index: number, updates: Partial<EqBand>) =>
+    updateEq({
+      bands: eq.bands.map((b, i) => (i === index ? { ...b, ...updates } : b)),
+    });
+
+  const maxFrequency = Math.min(MAX_EQ_FREQUENCY, sampleRate / 2);
+  const frequencies = Array.from({ length: GRAPH_POINTS }, (_, i) =>
+    ratioToFrequency((i / (GRAPH_POINTS - 1)) * frequencyToRatio(maxFrequency)),
+  );
+  const response = getEqResponse(eq.bands, frequencies, sampleRate);
+  const responsePath = frequencies
+    .map(
+      (frequency, i) =>
+        `${i === 0 ? "M" : "L"}${(frequencyToRatio(frequency) * GRAPH_WIDTH).toFixed(1)},${gainToY(response[i]).toFixed(1)}`,
+    )
+    .join(" ");
+
+  const handlePointerDown = (
+    e: React.PointerEvent<SVGCircleElement>,
+    index: number,
+  ) => {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragBandRef.current = index;
+    setSelectedBand(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragBandRef.current;
+    if (index === null) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const y = Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height));
+    const gain = GRAPH_RANGE - y * 2 * GRAPH_RANGE;
+    updateBand(index, {
+      frequency: Math.round(Math.min(maxFrequency, ratioToFrequency(x))),
+      ...(hasEqGain(eq.bands[index].type) && {
+        gain:
+          Math.round(Math.max(-MAX_EQ_GAIN, Math.min(MAX_EQ_GAIN, gain)) * 10) /
+          10,
+      }),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragBandRef.current = null;
+  };
+
+  return (
+    <div className={sectionStyles()}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Equalizer</p>
+        <Switch
+          size="sm"
+          checked={eq.enabled}
+          onClick={() => updateEq({ enabled: !eq.enabled })}
+        />
+      </div>
+      {eq.enabled && band && (
+        <>
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+            className="w-full h-auto touch-none select-none rounded border border-(--border-faint)"
+            role="img"
+            aria-label="EQ frequency response"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {GRID_FREQUENCIES.map((frequency) => {
+              const x = frequencyToRatio(frequency) * GRAPH_WIDTH;
+              return (
+                <g key={frequency}>
+                  <line
+                    x1={x}
+                    x2={x}
+                    y1={0}
+                    y2={GRAPH_HEIGHT}
+                    className="stroke-(--border-faint)"
+                    strokeDasharray="2 3"
+                  />
+                  <text
+                    x={x + 3}
+                    y={GRAPH_HEIGHT - 4}
+                    className="fill-(--foreground-muted) text-[10px]"
+                  >
+                    {formatFrequency(frequency)}
+                  </text>
+                </g>
+              );
+            })}
+            {GRID_GAINS.map((gain) => (
+              <g key={gain}>
+                <line
+                  x1={0}
+                  x2={GRAPH_WIDTH}
+                  y1={gainToY(gain)}
+                  y2={gainToY(gain)}
+                  className="stroke-(--border-faint)"
+                  strokeDasharray={gain === 0 ? undefined : "2 3"}
+                />
+                <text
+                  x={3}
+                  y={gainToY(gain) - 3}
+                  className="fill-(--foreground-muted) text-[10px]"
+                >
+                  {gain > 0 ? `+${gain}` : gain} dB
+                </text>
+              </g>
+            ))}
+            <path
+              d={responsePath}
+              fill="none"
+              strokeWidth={2}
+              className="stroke-(--accent)"
+            />
+            {eq.bands.map((b, index) => (
+              <circle
+                // biome-ignore lint/suspicious/noArrayIndexKey: bands have no identity beyond their position
+                key={index}
+                cx={frequencyToRatio(b.frequency) * GRAPH_WIDTH}
+                cy={gainToY(hasEqGain(b.type) ? b.gain : 0)}
+                r={index === selectedBand ? 7 : 5}
+                className={`cursor-grab stroke-(--background) ${b.enabled ? "fill-(--accent)" : "fill-(--foreground-subtle)"}`}
+                strokeWidth={1.5}
+                onPointerDown={(e) => handlePointerDown(e, index)}
+              >
+                <title>{getBandLabel(eq.bands, index)}</title>
+              </circle>
+            ))}
+          </svg>
+          <div className={fadeControlsStyles()}>
+            {eq.bands.map((_, index) => (
+              <Button
+                // biome-ignore lint/suspicious/noArrayIndexKey: bands have no identity beyond their position
+                key={index}
+                onClick={() => setSelectedBand(index)}
+                type="button"
+                variant={index === selectedBand ? "secondary" : "ghost"}
+                size="xs"
+              >
+                {getBandLabel(eq.bands, index)}
+              </Button>
+            ))}
+          </div>
+          <div className={fadeControlsStyles()}>
+            <Switch
+              size="sm"
+              label="On"
+              checked={band.enabled}
+              onCheckedChange={(enabled) =>
+                updateBand(selectedBand, { enabled })
+              }
+            />
+            <div className={rangeContainerStyles()}>
+              <Label>Frequency</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="range"
+                  min={0}
+                  max={frequencyToRatio(maxFrequency)}
+                  step={0.001}
+                  value={frequencyToRatio(band.frequency)}
+                  onChange={(e) =>
+                    updateBand(selectedBand, {
+                      frequency: Math.round(
+                        ratioToFrequency(Number.parseFloat(e.target.value)),
+                      ),
+                    })
+                  }
+                  className={rangeInputStyles()}
+                />
+                <span className={rangeValueStyles()}>
+                  {formatFrequency(band.frequency)}
+                </span>
+              </div>
+            </div>
+            <div className={rangeContainerStyles()}>
+              <Label>Gain</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="range"
+                  min={-MAX_EQ_GAIN}
+                  max={MAX_EQ_GAIN}
+                  step={0.1}
+                  value={band.gain}
+                  disabled={!hasEqGain(band.type)}
+                  onChange={(e) =>
+                    updateBand(selectedBand, {
+                      gain: Number.parseFloat(e.target.value),
+                    })
+                  }
+                  onDoubleClick={() => updateBand(selectedBand, { gain: 0 })}
+                  className={rangeInputStyles()}
+                />
+                <span className={rangeValueStyles()}>
+                  {hasEqGain(band.type)
+                    ? `${band.gain > 0 ? "+" : ""}${band.gain.toFixed(1)} dB`
+                    : "—"}
+                </span>
+              </div>
+            </div>
+            <div className={rangeContainerStyles()}>
+              <Label>Q</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="range"
+                  min={Math.log(MIN_EQ_Q)}
+                  max={Math.log(MAX_EQ_Q)}
+                  step={0.01}
+                  value={Math.log(band.q)}
+                  disabled={!hasEqQ(band.type)}
+                  onChange={(e) =>
+                    updateBand(selectedBand, {
+                      q:
+                        Math.round(
+                          Math.exp(Number.parseFloat(e.target.value)) * 100,
+                        ) / 100,
+                    })
+                  }
+                  className={rangeInputStyles()}
+                />
+                <span className={rangeValueStyles()}>
+                  {hasEqQ(band.type) ? band.q.toFixed(2) : "—"}
+                </span>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,13 @@ import { Input } from "@cloudflare/kumo";
 import { Label } from "@cloudflare/kumo/components/label";
 import { Select } from "@cloudflare/kumo/components/select";
 import { Switch } from "@cloudflare/kumo/components/switch";
-import type { AudioEditSettings, EaseCurve } from "../../utils/audioProcessing";
+import {
+  type AudioEditSettings,
+  clampFadeDuration,
+  type EaseCurve,
+  MAX_FADE_DURATION,
+  MIN_EDIT_LENGTH,
+} from "../../utils/audioProcessing";
 import {
   fadeControlsStyles,
   rangeContainerStyles,
@@ -28,8 +34,7 @@ interface FadeControlProps {
     >,
   ) => void;
   toggle: () => void;
-  cropStart: number;
-  cropEnd: number;
+  outputDuration: number; // seconds, after crop and cuts
 }
 
 export default function FadeControl({
@@ -37,8 +42,7 @@ export default function FadeControl({
   settings,
   updateFade,
   toggle,
-  cropStart,
-  cropEnd,
+  outputDuration,
 }: FadeControlProps) {
   const fade = settings[type];
   return (
@@ -56,12 +60,17 @@ export default function FadeControl({
             <div className="flex items-center gap-2">
               <Input
                 type="range"
-                min={0.01}
-                max={Math.min(10, cropEnd - cropStart)}
+                min={MIN_EDIT_LENGTH}
+                max={Math.min(MAX_FADE_DURATION, outputDuration)}
                 step={0.01}
                 value={fade.duration}
                 onChange={(e) =>
-                  updateFade({ duration: Number.parseFloat(e.target.value) })
+                  updateFade({
+                    duration: clampFadeDuration(
+                      Number.parseFloat(e.target.value),
+                      outputDuration,
+                    ),
+                  })
                 }
                 className={rangeInputStyles()}
               />
@@ -0,0 +1,112 @@
+import { Input } from "@cloudflare/kumo";
+import { Button } from "@cloudflare/kumo/components/button";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Switch } from "@cloudflare/kumo/components/switch";
+import {
+  type AudioEditSettings,
+  formatTime,
+  LIMITER_CEILING_RANGE,
+  type TimeRange,
+} from "../../utils/audioProcessing";
+import {
+  fadeControlsStyles,
+  rangeContainerStyles,
+  rangeInputStyles,
+  rangeValueStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+
+const LISTED_CLIPS = 5;
+
+interface LimiterControlProps {
+  settings: AudioEditSettings;
+  updateLimiter: (updates: Partial<AudioEditSettings["limiter"]>) => void;
+  clippedSamples: number | null; // null until the edit has been checked
+  clipRegions: TimeRange[]; // source seconds
+  isChecking: boolean;
+  onCheck: () => void;
+  onSeek: (time: number) => void;
+}
+
+export default function LimiterControl({
+  settings,
+  updateLimiter,
+  clippedSamples,
+  clipRegions,
+  isChecking,
+  onCheck,
+  onSeek,
+}: LimiterControlProps) {
+  const { limiter } = settings;
+  return (
+    <div className={sectionStyles()}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Limiter</p>
+        <Switch
+          size="sm"
+          checked={limiter.enabled}
+          onClick={() => updateLimiter({ enabled: !limiter.enabled })}
+        />
+      </div>
+      {limiter.enabled && (
+        <div className={`${fadeControlsStyles()} mt-0 mb-3`}>
+          <div className={rangeContainerStyles()}>
+            <Label>Ceiling</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="range"
+                {...LIMITER_CEILING_RANGE}
+                value={limiter.ceiling}
+                onChange={(e) =>
+                  updateLimiter({
+                    ceiling: Number.parseFloat(e.target.value),
+                  })
+                }
+                className={rangeInputStyles()}
+              />
+              <span className={rangeValueStyles()}>
+                {limiter.ceiling.toFixed(1)} dB
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+      <div className="flex items-center gap-3 flex-wrap">
+        <Button
+          onClick={onCheck}
+          loading={isChecking}
+          type="button"
+          variant="secondary"
+          size="sm"
+        >
+          Check clipping
+        </Button>
+        <span className={timeDisplayStyles()}>
+          {clippedSamples === null
+            ? "Checked automatically on export"
+            : clippedSamples === 0
+              ? "No clipping"
+              : `${clippedSamples.toLocaleString()} samples clip in ${clipRegions.length} ${clipRegions.length === 1 ? "place" : "places"}`}
+        </span>
+        {clipRegions.slice(0, LISTED_CLIPS).map((region) => (
+          <Button
+            key={region.start}
+            onClick={() => onSeek(region.start)}
+            type="button"
+            variant="ghost"
+            size="xs"
+          >
+            {formatTime(region.start)}
+          </Button>
+        ))}
+        {clipRegions.length > LISTED_CLIPS && (
+          <span className={timeDisplayStyles()}>
+            +{clipRegions.length - LISTED_CLIPS} more
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
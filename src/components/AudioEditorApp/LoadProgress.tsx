@@ -0,0 +1,35 @@
+import { Meter } from "@cloudflare/kumo/components/meter";
+
+export type LoadStage = "reading" | "decoding" | "analyzing";
+
+export interface LoadProgressState {
+  stage: LoadStage;
+  progress: number; // 0-1 within the stage
+}
+
+/**
+ * Share of the overall bar given to each stage. Decoding reports no
+ * progress of its own, so it only moves the bar once it completes.
+ */
+const STAGES: Record<LoadStage, { label: string; from: number; to: number }> = {
+  reading: { label: "Reading file", from: 0, to: 40 },
+  decoding: { label: "Decoding audio", from: 40, to: 60 },
+  analyzing: { label: "Analyzing waveform", from: 60, to: 100 },
+};
+
+interface LoadProgressProps {
+  state: LoadProgressState;
+}
+
+export default function LoadProgress({ state }: LoadProgressProps) {
+  const { label, from, to } = STAGES[state.stage];
+  return (
+    <div className="flex items-center justify-center py-16">
+      <Meter
+        className="w-full max-w-80"
+        label={`${label}...`}
+        value={from + (to - from) * state.progress}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { Label } from "@cloudflare/kumo/components/label";
+import { Select } from "@cloudflare/kumo/components/select";
+import { Switch } from "@cloudflare/kumo/components/switch";
+import {
+  type AudioEditSettings,
+  LOUDNESS_TARGETS,
+  TRUE_PEAK_CEILINGS,
+} from "../../utils/audioProcessing";
+import type { LoudnessMeasurement } from "../../utils/loudness";
+import {
+  fadeControlsStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+
+function formatDb(value: number, unit: string): string {
+  return Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`;
+}
+
+interface LoudnessControlProps {
+  settings: AudioEditSettings;
+  measurement: LoudnessMeasurement | null;
+  isMeasuring: boolean;
+  isShown: boolean; // reading shown while normalize is off
+  onShownChange: (isShown: boolean) => void;
+  normalizeGain: number | null; // linear gain applied while normalizing
+  updateNormalize: (updates: Partial<AudioEditSettings["normalize"]>) => void;
+}
+
+export default function LoudnessControl({
+  settings,
+  measurement,
+  isMeasuring,
+  isShown,
+  onShownChange,
+  normalizeGain,
+  updateNormalize,
+}: LoudnessControlProps) {
+  const { normalize } = settings;
+  const gainDb = normalizeGain !== null ? 20 * Math.log10(normalizeGain) : 0;
+  // The ceiling wins when it allows less gain than the target asks for
+  const isCeilingLimited =
+    measurement !== null &&
+    normalizeGain !== null &&
+    normalize.target - measurement.integrated > gainDb + 0.05;
+
+  return (
+    <div className={sectionStyles()}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Loudness</p>
+        <div className="flex items-center gap-3">
+          <Switch
+            size="sm"
+            label="Measure"
+            checked={isShown || normalize.enabled}
+            disabled={normalize.enabled}
+            onCheckedChange={onShownChange}
+          />
+          <Switch
+            size="sm"
+            label="Normalize"
+            checked={normalize.enabled}
+            onCheckedChange={(enabled) => updateNormalize({ enabled })}
+          />
+        </div>
+      </div>
+      {(isShown || normalize.enabled) && (
+        <p className={timeDisplayStyles()}>
+          {measurement
+            ? `Crop: ${formatDb(measurement.integrated, "LUFS")} integrated, ${formatDb(measurement.truePeak, "dBTP")} true peak`
+            : "Measuring…"}
+          {measurement && isMeasuring && " (updating…)"}
+        </p>
+      )}
+      {normalize.enabled && (
+        <div className={fadeControlsStyles()}>
+          <div className="min-w-35">
+            <Label>Target</Label>
+            <Select
+              className="mt-1"
+              value={String(normalize.target)}
+              onValueChange={(val) => updateNormalize({ target: Number(val) })}
+            >
+              {LOUDNESS_TARGETS.map((t) => (
+                <Select.Option key={t.value} value={String(t.value)}>
+                  {t.label}
+                </Select.Option>
+              ))}
+            </Select>
+          </div>
+          <div className="min-w-35">
+            <Label>True-peak ceiling</Label>
+            <Select
+              className="mt-1"
+              value={String(normalize.ceiling)}
+              onValueChange={(val) => updateNormalize({ ceiling: Number(val) })}
+            >
+              {TRUE_PEAK_CEILINGS.map((ceiling) => (
+                <Select.Option key={ceiling} value={String(ceiling)}>
+                  {ceiling} dBTP
+                </Select.Option>
+              ))}
+            </Select>
+          </div>
+          {normalizeGain !== null && (
+            <span className={`${timeDisplayStyles()} self-end`}>
+              Gain {gainDb >= 0 ? "+" : ""}
+              {gainDb.toFixed(1)} dB
+              {isCeilingLimited && " (limited by ceiling)"}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { Input } from "@cloudflare/kumo";
+import { Button } from "@cloudflare/kumo/components/button";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Switch } from "@cloudflare/kumo/components/switch";
+import {
+  type AudioEditSettings,
+  formatTime,
+  MIN_NOISE_PROFILE,
+  NOISE_REDUCTION_RANGE,
+  type TimeRange,
+} from "../../utils/audioProcessing";
+import {
+  fadeControlsStyles,
+  rangeContainerStyles,
+  rangeInputStyles,
+  rangeValueStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+
+interface NoiseReductionControlProps {
+  settings: AudioEditSettings;
+  selection: TimeRange | null; // captured as the noise profile
+  isProcessing: boolean;
+  updateNoiseReduction: (
+    updates: Partial<AudioEditSettings["noiseReduction"]>,
+  ) => void;
+}
+
+export default function NoiseReductionControl({
+  settings,
+  selection,
+  isProcessing,
+  updateNoiseReduction,
+}: NoiseReductionControlProps) {
+  const { noiseReduction } = settings;
+  const { profile } = noiseReduction;
+  const canCapture =
+    selection !== null && selection.end - selection.start >= MIN_NOISE_PROFILE;
+
+  return (
+    <div className={sectionStyles()}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Noise reduction</p>
+        <Switch
+          size="sm"
+          checked={noiseReduction.enabled}
+          disabled={!profile}
+          onClick={() =>
+            updateNoiseReduction({ enabled: !noiseReduction.enabled })
+          }
+        />
+      </div>
+      <div className="flex items-center gap-3 flex-wrap">
+        <Button
+          onClick={() =>
+            selection &&
+            updateNoiseReduction({ profile: selection, enabled: true })
+          }
+          disabled={!canCapture}
+          type="button"
+          variant="secondary"
+          size="sm"
+        >
+          Capture noise from selection
+        </Button>
+        <span className={timeDisplayStyles()}>
+          {profile
+            ? `Profile: ${formatTime(profile.start)} – ${formatTime(profile.end)}`
+            : "Shift+drag over a noise-only stretch, then capture it"}
+          {noiseReduction.enabled &&
+            profile &&
+            isProcessing &&
+            " (processing…)"}
+        </span>
+      </div>
+      {noiseReduction.enabled && profile && (
+        <div className={fadeControlsStyles()}>
+          <div className={rangeContainerStyles()}>
+            <Label>Strength</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="range"
+                {...NOISE_REDUCTION_RANGE}
+                value={noiseReduction.strength}
+                onChange={(e) =>
+                  updateNoiseReduction({
+                    strength: Number.parseFloat(e.target.value),
+                  })
+                }
+                className={rangeInputStyles()}
+              />
+              <span className={rangeValueStyles()}>
+                {Math.round(noiseReduction.strength * 100)}%
+              </span>
+            </div>
+          </div>
+          <div className={rangeContainerStyles()}>
+            <Label>Smoothing</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="range"
+                {...NOISE_REDUCTION_RANGE}
+                value={noiseReduction.smoothing}
+                onChange={(e) =>
+                  updateNoiseReduction({
+                    smoothing: Number.parseFloat(e.target.value),
+                  })
+                }
+                className={rangeInputStyles()}
+              />
+              <span className={rangeValueStyles()}>
+                {Math.round(noiseReduction.smoothing * 100)}%
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
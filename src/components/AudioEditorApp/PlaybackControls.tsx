@@ -1,37 +1,79 @@
 import { Button } from "@cloudflare/kumo/components/button";
-import { formatTime } from "../../utils/audioProcessing";
+import { RepeatIcon } from "@phosphor-icons/react";
+import { formatTime, type TimeRange } from "../../utils/audioProcessing";
 import { playbackBarStyles, timeDisplayStyles } from "./audioEditorStyles";
 
 interface PlaybackControlsProps {
   isPlaying: boolean;
   onPreview: () => void;
-  playbackPosition: number;
-  duration: number;
-  cropStart: number;
-  cropEnd: number;
+  onStop: () => void;
+  isLooping: boolean;
+  onToggleLoop: () => void;
+  abRange: TimeRange | null; // source seconds, looped instead of the crop
+  onClearAbRange: () => void;
+  currentTime: number; // seconds into the output
+  outputDuration: number; // seconds, after crop and cuts
 }
 
 export default function PlaybackControls({
   isPlaying,
   onPreview,
-  playbackPosition,
-  duration,
-  cropStart,
-  cropEnd,
+  onStop,
+  isLooping,
+  onToggleLoop,
+  abRange,
+  onClearAbRange,
+  currentTime,
+  outputDuration,
 }: PlaybackControlsProps) {
   return (
-    <div className={playbackBarStyles()}>
+    <div className={`${playbackBarStyles()} flex-wrap`}>
       <Button
         onClick={onPreview}
         type="button"
         variant={isPlaying ? "primary" : "secondary"}
         size="sm"
       >
-        {isPlaying ? "Stop" : "Preview"}
+        {isPlaying ? "Pause" : currentTime > 0 ? "Resume" : "Preview"}
+      </Button>
+      <Button
+        onClick={onStop}
+        disabled={!isPlaying && currentTime === 0}
+        type="button"
+        variant="secondary"
+        size="sm"
+      >
+        Stop
+      </Button>
+      <Button
+        onClick={onToggleLoop}
+        aria-pressed={isLooping}
+        icon={RepeatIcon}
+        type="button"
+        variant={isLooping ? "primary" : "secondary"}
+        size="sm"
+      >
+        {abRange ? "Loop A/B" : "Loop crop"}
       </Button>
       <span className={timeDisplayStyles()}>
-        {formatTime(playbackPosition * duration)} /{" "}
-        {formatTime(cropEnd - cropStart)}
+        {formatTime(currentTime)} / {formatTime(outputDuration)}
+      </span>
+      <span className={`${timeDisplayStyles()} ml-auto text-[0.75rem]`}>
+        {abRange ? (
+          <>
+            A/B {formatTime(abRange.start)} – {formatTime(abRange.end)}{" "}
+            <Button
+              onClick={onClearAbRange}
+              type="button"
+              variant="ghost"
+              size="xs"
+            >
+              Clear
+            </Button>
+          </>
+        ) : (
+          "Shift+drag the waveform to set an A/B range"
+        )}
       </span>
     </div>
   );
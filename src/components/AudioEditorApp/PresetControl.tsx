@@ -0,0 +1,134 @@
+import { Input } from "@cloudflare/kumo";
+import { Button } from "@cloudflare/kumo/components/button";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Select } from "@cloudflare/kumo/components/select";
+import { useState } from "react";
+import { useDropzone } from "react-dropzone";
+import type { Preset } from "../../utils/presets";
+import {
+  fadeControlsStyles,
+  sectionStyles,
+  sectionTitleStyles,
+} from "./audioEditorStyles";
+
+interface PresetControlProps {
+  presets: Preset[];
+  onSave: (name: string) => void;
+  onLoad: (preset: Preset) => void;
+  onDelete: (preset: Preset) => void;
+  onExport: (preset: Preset) => void;
+  onImport: (file: File) => void;
+}
+
+export default function PresetControl({
+  presets,
+  onSave,
+  onLoad,
+  onDelete,
+  onExport,
+  onImport,
+}: PresetControlProps) {
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const selected =
+    presets.find((preset) => preset.name === selectedName) ?? presets[0];
+  const trimmedName = newName.trim();
+
+  const { getInputProps, open } = useDropzone({
+    onDrop: (acceptedFiles: File[]) => {
+      if (acceptedFiles.length > 0) onImport(acceptedFiles[0]);
+    },
+    accept: {
+      "application/json": [".json"],
+    },
+    multiple: false,
+    noClick: true,
+    noKeyboard: true,
+    noDrag: true,
+  });
+
+  const handleSave = () => {
+    onSave(trimmedName);
+    setSelectedName(trimmedName);
+    setNewName("");
+  };
+
+  return (
+    <div className={sectionStyles()}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Presets</p>
+        <input {...getInputProps()} />
+        <Button onClick={open} type="button" variant="secondary" size="sm">
+          Import
+        </Button>
+      </div>
+      <div className={`${fadeControlsStyles()} mt-0`}>
+        <div className="min-w-35">
+          <Label>Preset</Label>
+          <Select
+            className="mt-1"
+            value={selected?.name ?? ""}
+            disabled={presets.length === 0}
+            onValueChange={(val) => setSelectedName(val as string)}
+          >
+            {presets.map((preset) => (
+              <Select.Option key={preset.name} value={preset.name}>
+                {preset.name}
+              </Select.Option>
+            ))}
+          </Select>
+        </div>
+        <Button
+          onClick={() => selected && onLoad(selected)}
+          disabled={!selected}
+          type="button"
+          variant="secondary"
+          size="sm"
+        >
+          Load
+        </Button>
+        <Button
+          onClick={() => selected && onExport(selected)}
+          disabled={!selected}
+          type="button"
+          variant="ghost"
+          size="sm"
+        >
+          Export
+        </Button>
+        <Button
+          onClick={() => selected && onDelete(selected)}
+          disabled={!selected}
+          type="button"
+          variant="ghost"
+          size="sm"
+        >
+          Delete
+        </Button>
+      </div>
+      <div className={fadeControlsStyles()}>
+        <Input
+          aria-label="Preset name"
+          placeholder="Preset name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && trimmedName) handleSave();
+          }}
+          className="flex-1 min-w-35"
+        />
+        <Button
+          onClick={handleSave}
+          disabled={!trimmedName}
+          type="button"
+          variant="secondary"
+          size="sm"
+        >
+          {presets.some((preset) => preset.name === trimmedName)
+            ? "Overwrite preset"
+            : "Save current settings"}
+        </Button>
+      </div>
+    </div>
+  );
+}
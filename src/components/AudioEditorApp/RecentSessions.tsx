@@ -0,0 +1,74 @@
+import { Button } from "@cloudflare/kumo/components/button";
+import { formatTime } from "../../utils/audioProcessing";
+import type { SessionSummary } from "../../utils/sessionStore";
+import {
+  controlRowStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+}
+
+interface RecentSessionsProps {
+  sessions: SessionSummary[];
+  storage: { usage: number; quota: number } | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function RecentSessions({
+  sessions,
+  storage,
+  onOpen,
+  onDelete,
+}: RecentSessionsProps) {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className={`${sectionStyles()} mt-3`}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Recent projects</p>
+        {storage && (
+          <span className={timeDisplayStyles()}>
+            {formatBytes(storage.usage)} of {formatBytes(storage.quota)} used
+          </span>
+        )}
+      </div>
+      {sessions.map((session) => (
+        <div
+          key={session.id}
+          className={`${controlRowStyles()} mb-2 last:mb-0`}
+        >
+          <span className="flex-1 min-w-0 truncate text-[0.85rem]">
+            {session.name}
+          </span>
+          <span className={timeDisplayStyles()}>
+            {formatTime(session.duration)} &middot; {formatBytes(session.size)}{" "}
+            &middot; {new Date(session.updatedAt).toLocaleString()}
+          </span>
+          <Button
+            onClick={() => onOpen(session.id)}
+            type="button"
+            variant="secondary"
+            size="xs"
+          >
+            Open
+          </Button>
+          <Button
+            onClick={() => onDelete(session.id)}
+            type="button"
+            variant="ghost"
+            size="xs"
+          >
+            Delete
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { Button } from "@cloudflare/kumo/components/button";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Select } from "@cloudflare/kumo/components/select";
+import { useState } from "react";
+import { formatTime } from "../../utils/audioProcessing";
+import {
+  controlRowStyles,
+  fadeControlsStyles,
+  rangeValueStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+import { useRecorder } from "./useRecorder";
+
+const COUNT_INS = [0, 3, 5, 10]; // seconds
+const DEFAULT_DEVICE = "default-input";
+const METER_FLOOR = -60; // dBFS at the empty end of the meter
+
+interface RecordControlProps {
+  onRecorded: (file: File) => void;
+}
+
+export default function RecordControl({ onRecorded }: RecordControlProps) {
+  const recorder = useRecorder(onRecorded);
+  const [countIn, setCountIn] = useState(0);
+  const { status, level } = recorder;
+  const isBusy = status.state !== "idle";
+
+  if (!recorder.isSupported) return null;
+
+  const meterFill =
+    level === null ? 0 : Math.max(0, Math.min(1, 1 - level / METER_FLOOR));
+
+  let statusText = "Not recording";
+  if (status.state === "starting") statusText = "Opening microphone…";
+  else if (status.state === "countIn") {
+    statusText = `Starting in ${status.remaining}…`;
+  } else if (status.state === "recording") {
+    statusText = `Recording ${formatTime(status.elapsed)}`;
+  }
+
+  return (
+    <div className={`${sectionStyles()} mt-3`}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Record</p>
+        <Button
+          onClick={() => (isBusy ? recorder.stop() : recorder.start(countIn))}
+          disabled={status.state === "starting"}
+          type="button"
+          variant={isBusy ? "primary" : "secondary"}
+          size="sm"
+        >
+          {status.state === "recording"
+            ? "Stop"
+            : status.state === "countIn"
+              ? "Cancel"
+              : "Record"}
+        </Button>
+      </div>
+      <div className={controlRowStyles()}>
+        <span className={timeDisplayStyles()}>Level</span>
+        <div className="relative h-2 flex-1 rounded bg-(--border-faint) overflow-hidden">
+          <div
+            className="absolute inset-y-0 left-0 bg-(--accent)"
+            style={{ width: `${meterFill * 100}%` }}
+          />
+        </div>
+        <span className={rangeValueStyles()}>
+          {level === null
+            ? "–"
+            : level === -Infinity
+              ? "-∞ dB"
+              : `${level.toFixed(1)} dB`}
+        </span>
+      </div>
+      <div className={fadeControlsStyles()}>
+        <div className="min-w-50 flex-1">
+          <Label>Input</Label>
+          <Select
+            className="mt-1"
+            value={recorder.deviceId ?? DEFAULT_DEVICE}
+            disabled={isBusy}
+            onValueChange={(val) =>
+              recorder.setDeviceId(
+                val === DEFAULT_DEVICE ? null : (val as string),
+              )
+            }
+          >
+            <Select.Option value={DEFAULT_DEVICE}>System default</Select.Option>
+            {recorder.devices
+              .filter(
+                (device) => device.deviceId && device.deviceId !== "default",
+              )
+              .map((device, i) => (
+                <Select.Option key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Microphone ${i + 1}`}
+                </Select.Option>
+              ))}
+          </Select>
+        </div>
+        <div className="min-w-30">
+          <Label>Count-in</Label>
+          <Select
+            className="mt-1"
+            value={String(countIn)}
+            disabled={isBusy}
+            onValueChange={(val) => setCountIn(Number(val))}
+          >
+            {COUNT_INS.map((seconds) => (
+              <Select.Option key={seconds} value={String(seconds)}>
+                {seconds === 0 ? "Off" : `${seconds} s`}
+              </Select.Option>
+            ))}
+          </Select>
+        </div>
+        <span className={`${timeDisplayStyles()} self-end`}>{statusText}</span>
+      </div>
+    </div>
+  );
+}
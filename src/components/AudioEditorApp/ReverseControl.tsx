@@ -0,0 +1,64 @@
+import { Switch } from "@cloudflare/kumo/components/switch";
+import {
+  type AudioEditSettings,
+  getChannelLabels,
+} from "../../utils/audioProcessing";
+import {
+  fadeControlsStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+
+interface ReverseControlProps {
+  settings: AudioEditSettings;
+  sourceChannels: number;
+  isProcessing: boolean;
+  updateSetting: <K extends keyof AudioEditSettings>(
+    key: K,
+    value: AudioEditSettings[K],
+  ) => void;
+}
+
+export default function ReverseControl({
+  settings,
+  sourceChannels,
+  isProcessing,
+  updateSetting,
+}: ReverseControlProps) {
+  const { reverse, invertPolarity } = settings;
+
+  const toggleChannel = (channel: number) =>
+    updateSetting(
+      "invertPolarity",
+      Array.from({ length: sourceChannels }, (_, ch) =>
+        ch === channel ? !invertPolarity[ch] : !!invertPolarity[ch],
+      ),
+    );
+
+  return (
+    <div className={sectionStyles()}>
+      <p className={sectionTitleStyles()}>Reverse & polarity</p>
+      <div className={`${fadeControlsStyles()} mt-0`}>
+        <Switch
+          size="sm"
+          label="Reverse crop region"
+          checked={reverse}
+          onCheckedChange={(checked) => updateSetting("reverse", checked)}
+        />
+        {getChannelLabels(sourceChannels).map((label, ch) => (
+          <Switch
+            key={label}
+            size="sm"
+            label={`Invert ${label}`}
+            checked={!!invertPolarity[ch]}
+            onCheckedChange={() => toggleChannel(ch)}
+          />
+        ))}
+      </div>
+      {reverse && isProcessing && (
+        <p className={`${timeDisplayStyles()} mt-2`}>Reversing…</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { Input } from "@cloudflare/kumo";
+import { Button } from "@cloudflare/kumo/components/button";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Switch } from "@cloudflare/kumo/components/switch";
+import type { TimeRange } from "../../utils/audioProcessing";
+import {
+  controlRowStyles,
+  fadeControlsStyles,
+  rangeContainerStyles,
+  rangeInputStyles,
+  rangeValueStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+
+export interface SilenceOptions {
+  threshold: number; // dBFS
+  minDuration: number; // seconds of quiet that count as silence
+  showPauses: boolean;
+  maxPause: number; // seconds pauses are shortened to
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceOptions = {
+  threshold: -50,
+  minDuration: 0.5,
+  showPauses: false,
+  maxPause: 0.5,
+};
+
+interface SilenceControlProps {
+  options: SilenceOptions;
+  onOptionsChange: (options: SilenceOptions) => void;
+  pauses: TimeRange[] | null; // null while detecting
+  isTrimming: boolean;
+  onTrim: () => void;
+  onShortenPauses: () => void;
+}
+
+export default function SilenceControl({
+  options,
+  onOptionsChange,
+  pauses,
+  isTrimming,
+  onTrim,
+  onShortenPauses,
+}: SilenceControlProps) {
+  const update = (updates: Partial<SilenceOptions>) =>
+    onOptionsChange({ ...options, ...updates });
+  const longPauses =
+    pauses?.filter((pause) => pause.end - pause.start > options.maxPause) ?? [];
+
+  return (
+    <div className={sectionStyles()}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`${sectionTitleStyles()} mb-0!`}>Silence</p>
+        <Button
+          onClick={onTrim}
+          loading={isTrimming}
+          type="button"
+          variant="secondary"
+          size="sm"
+        >
+          Trim silence
+        </Button>
+      </div>
+      <div className={controlRowStyles()}>
+        <div className={rangeContainerStyles()}>
+          <Label>Threshold</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="range"
+              min={-80}
+              max={-20}
+              step={1}
+              value={options.threshold}
+              onChange={(e) =>
+                update({ threshold: Number.parseFloat(e.target.value) })
+              }
+              className={rangeInputStyles()}
+            />
+            <span className={rangeValueStyles()}>{options.threshold} dB</span>
+          </div>
+        </div>
+        <div className={rangeContainerStyles()}>
+          <Label>Minimum length</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="range"
+              min={0.1}
+              max={5}
+              step={0.1}
+              value={options.minDuration}
+              onChange={(e) =>
+                update({ minDuration: Number.parseFloat(e.target.value) })
+              }
+              className={rangeInputStyles()}
+            />
+            <span className={rangeValueStyles()}>
+              {options.minDuration.toFixed(1)}s
+            </span>
+          </div>
+        </div>
+      </div>
+      <div className={fadeControlsStyles()}>
+        <Switch
+          size="sm"
+          label="Find pauses"
+          checked={options.showPauses}
+          onCheckedChange={(showPauses) => update({ showPauses })}
+        />
+        {options.showPauses && (
+          <>
+            <div className={rangeContainerStyles()}>
+              <Label>Shorten to</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="range"
+                  min={0.1}
+                  max={3}
+                  step={0.1}
+                  value={options.maxPause}
+                  onChange={(e) =>
+                    update({ maxPause: Number.parseFloat(e.target.value) })
+                  }
+                  className={rangeInputStyles()}
+                />
+                <span className={rangeValueStyles()}>
+                  {options.maxPause.toFixed(1)}s
+                </span>
+              </div>
+            </div>
+            <span className={timeDisplayStyles()}>
+              {pauses === null
+                ? "Detecting…"
+                : `${pauses.length} ${pauses.length === 1 ? "pause" : "pauses"}, ${longPauses.length} longer than ${options.maxPause.toFixed(1)}s`}
+            </span>
+            <Button
+              onClick={onShortenPauses}
+              disabled={longPauses.length === 0}
+              type="button"
+              variant="secondary"
+              size="sm"
+            >
+              Shorten pauses
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
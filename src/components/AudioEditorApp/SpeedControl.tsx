@@ -0,0 +1,104 @@
+import { Input } from "@cloudflare/kumo";
+import { Label } from "@cloudflare/kumo/components/label";
+import { Select } from "@cloudflare/kumo/components/select";
+import {
+  type AudioEditSettings,
+  PITCH_RANGE,
+  SPEED_RATE_RANGE,
+  type SpeedMode,
+} from "../../utils/audioProcessing";
+import {
+  fadeControlsStyles,
+  rangeContainerStyles,
+  rangeInputStyles,
+  rangeValueStyles,
+  sectionStyles,
+  sectionTitleStyles,
+  timeDisplayStyles,
+} from "./audioEditorStyles";
+
+const SPEED_MODES: { value: SpeedMode; label: string }[] = [
+  { value: "stretch", label: "Keep pitch" },
+  { value: "resample", label: "Resample (pitch follows)" },
+];
+
+function formatSemitones(semitones: number): string {
+  return `${semitones > 0 ? "+" : ""}${semitones.toFixed(1)} st`;
+}
+
+interface SpeedControlProps {
+  settings: AudioEditSettings;
+  isProcessing: boolean;
+  updateSpeed: (updates: Partial<AudioEditSettings["speed"]>) => void;
+}
+
+export default function SpeedControl({
+  settings,
+  isProcessing,
+  updateSpeed,
+}: SpeedControlProps) {
+  const { speed } = settings;
+  const isStretch = speed.mode === "stretch";
+
+  return (
+    <div className={sectionStyles()}>
+      <p className={sectionTitleStyles()}>Speed & pitch</p>
+      <div className={`${fadeControlsStyles()} mt-0`}>
+        <div className="min-w-35">
+          <Label>Mode</Label>
+          <Select
+            className="mt-1"
+            value={speed.mode}
+            onValueChange={(val) => updateSpeed({ mode: val as SpeedMode })}
+          >
+            {SPEED_MODES.map((m) => (
+              <Select.Option key={m.value} value={m.value}>
+                {m.label}
+              </Select.Option>
+            ))}
+          </Select>
+        </div>
+        <div className={rangeContainerStyles()}>
+          <Label>Speed</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="range"
+              {...SPEED_RATE_RANGE}
+              value={speed.rate}
+              onChange={(e) =>
+                updateSpeed({ rate: Number.parseFloat(e.target.value) })
+              }
+              onDoubleClick={() => updateSpeed({ rate: 1 })}
+              className={rangeInputStyles()}
+            />
+            <span className={rangeValueStyles()}>{speed.rate.toFixed(2)}×</span>
+          </div>
+        </div>
+        <div className={rangeContainerStyles()}>
+          <Label>Pitch</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="range"
+              {...PITCH_RANGE}
+              value={isStretch ? speed.pitch : 12 * Math.log2(speed.rate)}
+              disabled={!isStretch}
+              onChange={(e) =>
+                updateSpeed({ pitch: Number.parseFloat(e.target.value) })
+              }
+              onDoubleClick={() => updateSpeed({ pitch: 0 })}
+              className={rangeInputStyles()}
+            />
+            <span className={rangeValueStyles()}>
+              {formatSemitones(
+                isStretch ? speed.pitch : 12 * Math.log2(speed.rate),
+              )}
+            </span>
+          </div>
+        </div>
+      </div>
+      {isStretch && isProcessing && (speed.rate !== 1 || speed.pitch !== 0) && (
+        <p className={`${timeDisplayStyles()} mt-2`}>Stretching…</p>
+      )}
+    </div>
+  );
+}
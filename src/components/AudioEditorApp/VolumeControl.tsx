@@ -1,5 +1,8 @@
 import { Input } from "@cloudflare/kumo";
-import type { AudioEditSettings } from "../../utils/audioProcessing";
+import {
+  type AudioEditSettings,
+  VOLUME_RANGE,
+} from "../../utils/audioProcessing";
 import {
   controlRowStyles,
   rangeContainerStyles,
@@ -11,6 +14,7 @@ import {
 
 interface VolumeControlProps {
   settings: AudioEditSettings;
+  normalizeGain: number | null; // replaces the volume while normalizing
   updateSetting: <K extends keyof AudioEditSettings>(
     key: K,
     value: AudioEditSettings[K],
@@ -19,8 +23,10 @@ interface VolumeControlProps {
 
 export default function VolumeControl({
   settings,
+  normalizeGain,
   updateSetting,
 }: VolumeControlProps) {
+  const volume = normalizeGain ?? settings.volume;
   return (
     <div className={sectionStyles()}>
       <p className={sectionTitleStyles()}>Volume</p>
@@ -29,17 +35,16 @@ export default function VolumeControl({
           <div className="flex items-center gap-2">
             <Input
               type="range"
-              min={0}
-              max={2}
-              step={0.01}
-              value={settings.volume}
+              {...VOLUME_RANGE}
+              value={Math.min(VOLUME_RANGE.max, volume)}
+              disabled={normalizeGain !== null}
               onChange={(e) =>
                 updateSetting("volume", Number.parseFloat(e.target.value))
               }
               className={rangeInputStyles()}
             />
             <span className={rangeValueStyles()}>
-              {Math.round(settings.volume * 100)}%
+              {Math.round(volume * 100)}%
             </span>
           </div>
         </div>
@@ -1,15 +1,123 @@
 "use client";
 
+import { Button } from "@cloudflare/kumo/components/button";
+import { Switch } from "@cloudflare/kumo/components/switch";
 import { cva } from "class-variance-authority";
-import { useEffect, useRef } from "react";
-import type { AudioEditSettings } from "../../utils/audioProcessing";
-import { extractWaveformPeaks, formatTime } from "../../utils/audioProcessing";
+import { useEffect, useRef, useState } from "react";
+import type { AudioEditSettings, TimeRange } from "../../utils/audioProcessing";
+import {
+  formatTime,
+  getChannelLabels,
+  getChannelRouting,
+  getEditTimeline,
+  getKeptRanges,
+  getOutputDuration,
+  MIN_EDIT_LENGTH,
+  outputTimeToSourceTime,
+} from "../../utils/audioProcessing";
+import {
+  getMidCache,
+  getWaveformCaches,
+  prepareMidCache,
+} from "../../utils/waveformAnalysis";
+import { type PeakCache, readPeaks } from "../../utils/waveformPeaks";
+
+export type WaveformHandle =
+  | "cropStart"
+  | "cropEnd"
+  | "fadeIn"
+  | "fadeOut"
+  | "selectionStart"
+  | "selectionEnd";
 
 interface WaveformDisplayProps {
   audioBuffer: AudioBuffer;
   settings: AudioEditSettings;
+  selection: TimeRange | null; // source seconds, set by shift+dragging
+  clipRegions: TimeRange[]; // source seconds where the export clips
+  pauseRegions: TimeRange[]; // source seconds of detected pauses
   playbackPosition: number; // 0-1 normalized to the FULL buffer
   onSeek: (time: number) => void;
+  onDragHandle: (handle: WaveformHandle, time: number) => void;
+  onSelect: (selection: TimeRange | null) => void;
+}
+
+const HANDLE_HIT_RADIUS = 6; // px
+const MAX_PIXELS_PER_SAMPLE = 24;
+const SAMPLE_DOT_MIN_SPACING = 6; // px between samples before dots are drawn
+const WHEEL_ZOOM_SPEED = 0.002;
+const SINGLE_LANE_HEIGHT = 140; // px
+const MIN_LANE_HEIGHT = 60; // px, per channel when stacked
+const PINCH_WHEEL_ZOOM_SPEED = 0.01;
+
+/**
+ * Keep a visible window inside the buffer and within the zoom limits
+ */
+function clampView(
+  view: TimeRange,
+  duration: number,
+  minSpan: number,
+): TimeRange {
+  const span = Math.min(duration, Math.max(minSpan, view.end - view.start));
+  const start = Math.max(0, Math.min(view.start, duration - span));
+  return { start, end: start + span };
+}
+
+/**
+ * Source time of every draggable boundary. Fade edges only exist while the
+ * fade is enabled, selection edges while there is a selection.
+ */
+function getHandleTimes(
+  settings: AudioEditSettings,
+  selection: TimeRange | null,
+): Partial<Record<WaveformHandle, number>> {
+  const timeline = getEditTimeline(settings);
+  const outputDuration = getOutputDuration(timeline);
+  const handles: Partial<Record<WaveformHandle, number>> = {
+    cropStart: settings.cropStart,
+    cropEnd: settings.cropEnd,
+  };
+  if (settings.fadeIn.enabled && settings.fadeIn.duration > 0) {
+    handles.fadeIn = outputTimeToSourceTime(
+      timeline,
+      Math.min(settings.fadeIn.duration, outputDuration),
+    );
+  }
+  if (settings.fadeOut.enabled && settings.fadeOut.duration > 0) {
+    handles.fadeOut = outputTimeToSourceTime(
+      timeline,
+      Math.max(0, outputDuration - settings.fadeOut.duration),
+    );
+  }
+  if (selection) {
+    handles.selectionStart = selection.start;
+    handles.selectionEnd = selection.end;
+  }
+  return handles;
+}
+
+/**
+ * Tooltip text shown while hovering or dragging a handle
+ */
+function describeHandle(
+  handle: WaveformHandle,
+  settings: AudioEditSettings,
+  selection: TimeRange | null,
+): string {
+  switch (handle) {
+    case "cropStart":
+      return `Start ${formatTime(settings.cropStart)}`;
+    case "cropEnd":
+      return `End ${formatTime(settings.cropEnd)}`;
+    case "fadeIn":
+      return `Fade in ${settings.fadeIn.duration.toFixed(2)}s`;
+    case "fadeOut":
+      return `Fade out ${settings.fadeOut.duration.toFixed(2)}s`;
+    case "selectionStart":
+      return `A ${formatTime(selection?.start ?? 0)}`;
+    case "selectionEnd":
+      return `B ${formatTime(selection?.end ?? 0)}`;
+  }
 }
 
 const containerStyles = cva([
@@ -21,14 +129,277 @@ const timestampStyles = cva([
   "absolute bottom-1 text-[0.7rem] text-(--foreground-muted) pointer-events-none select-none",
 ]);
 
+const zoomBarStyles = cva([
+  "flex items-center gap-2 px-2 py-1.5 border-t border-(--border-faint)",
+]);
+
+const scrollTrackStyles = cva([
+  "relative flex-1 h-2 rounded-full bg-(--border-faint) cursor-pointer touch-none",
+]);
+
+const scrollThumbStyles = cva([
+  "absolute top-0 h-full min-w-2 rounded-full bg-(--foreground-muted) cursor-grab",
+]);
+
+const laneLabelStyles = cva([
+  "absolute left-1 text-[0.65rem] font-semibold text-(--foreground-muted) pointer-events-none select-none",
+]);
+
+const handleTooltipStyles = cva([
+  "absolute top-1 -translate-x-1/2 px-1.5 py-0.5 rounded whitespace-nowrap",
+  "text-[0.7rem] tabular-nums pointer-events-none select-none",
+  "bg-(--background) text-(--foreground) border border-(--border-faint)",
+]);
+
+interface LaneGeometry {
+  top: number;
+  height: number;
+  width: number;
+  startSample: number;
+  samplesPerPixel: number;
+  gain: number; // e.g. from the balance, scales the drawn amplitude
+  mirror: { start: number; end: number } | null; // samples drawn reversed
+}
+
+/**
+ * The peak cache and gain for each output channel lane. The mid view
+ * shows the average of what the output channels carry. Flipped channels
+ * get a negative gain, which draws them upside down; a mix with flipped
+ * channels has no cache until the worker has built it.
+ */
+function getLanes(
+  buffer: AudioBuffer,
+  settings: AudioEditSettings,
+  isMidView: boolean,
+): { cache: PeakCache | null; gain: number }[] {
+  const caches = getWaveformCaches(buffer);
+  const routing = getChannelRouting(settings.channels, caches.channels.length);
+  const getLane = (source: number | "mix", gain: number) =>
+    source === "mix"
+      ? { cache: getMidCache(buffer, settings.invertPolarity), gain }
+      : {
+          cache: caches.channels[source],
+          gain: settings.invertPolarity[source] ? -gain : gain,
+        };
+  if (!isMidView) {
+    return routing.map((route) => getLane(route.source, route.gain));
+  }
+  const isSingleSource = routing.every(
+    (route) => route.source === routing[0].source,
+  );
+  return [getLane(isSingleSource ? routing[0].source : "mix", 1)];
+}
+
+/**
+ * Draw one channel's waveform into its horizontal lane
+ */
+function drawLane(
+  ctx: CanvasRenderingContext2D,
+  cache: PeakCache,
+  {
+    top,
+    height,
+    width,
+    startSample,
+    samplesPerPixel,
+    gain,
+    mirror,
+  }: LaneGeometry,
+  isKept: (x: number) => boolean,
+  keptColor: string,
+  removedColor: string,
+) {
+  const midY = top + height / 2;
+  const amplitude = (height / 2) * 0.9 * gain;
+  const isMirrored = (sample: number) =>
+    mirror !== null && sample >= mirror.start && sample < mirror.end;
+
+  if (samplesPerPixel < 1) {
+    // Zoomed past one sample per pixel: connect the individual samples
+    const first = Math.max(0, Math.floor(startSample));
+    const last = Math.min(
+      cache.samples.length - 1,
+      Math.ceil(startSample + width * samplesPerPixel),
+    );
+    const pixelsPerSample = 1 / samplesPerPixel;
+    const sampleX = (i: number) => (i - startSample) * pixelsPerSample;
+    const sampleY = (i: number) =>
+      midY -
+      cache.samples[
+        mirror && isMirrored(i) ? mirror.start + mirror.end - 1 - i : i
+      ] *
+        amplitude;
+
+    ctx.strokeStyle = keptColor;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    for (let i = first; i <= last; i++) {
+      if (i === first) ctx.moveTo(sampleX(i), sampleY(i));
+      else ctx.lineTo(sampleX(i), sampleY(i));
+    }
+    ctx.stroke();
+
+    if (pixelsPerSample >= SAMPLE_DOT_MIN_SPACING) {
+      for (let i = first; i <= last; i++) {
+        ctx.fillStyle = isKept(sampleX(i)) ? keptColor : removedColor;
+        ctx.beginPath();
+        ctx.arc(sampleX(i), sampleY(i), 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+    return;
+  }
+
+  const numBuckets = Math.floor(width);
+  const { positive, negative } = readPeaks(
+    cache,
+    startSample,
+    samplesPerPixel,
+    numBuckets,
+  );
+  // The same span read backwards from the far side of the mirror, so its
+  // last column lines up with the first pixel
+  const mirrored =
+    mirror &&
+    readPeaks(
+      cache,
+      mirror.start + mirror.end - startSample - numBuckets * samplesPerPixel,
+      samplesPerPixel,
+      numBuckets,
+    );
+
+  for (let i = 0; i < numBuckets; i++) {
+    const x = i;
+    ctx.fillStyle = isKept(x) ? keptColor : removedColor;
+
+    const isReversed =
+      mirrored !== null &&
+      isMirrored(startSample + (i + 0.5) * samplesPerPixel);
+    const peaks = mirrored && isReversed ? mirrored : { positive, negative };
+    const column = isReversed ? numBuckets - 1 - i : i;
+    const posHeight = peaks.positive[column] * amplitude;
+    const negHeight = -peaks.negative[column] * amplitude;
+
+    ctx.fillRect(x, midY - posHeight, 1, posHeight + negHeight);
+  }
+}
+
 export default function WaveformDisplay({
   audioBuffer,
   settings,
+  selection,
+  clipRegions,
+  pauseRegions,
   playbackPosition,
   onSeek,
+  onDragHandle,
+  onSelect,
 }: WaveformDisplayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef(new Map<number, number>());
+  const pinchRef = useRef<{ distance: number; view: TimeRange } | null>(null);
+  const thumbDragRef = useRef<{ x: number; start: number } | null>(null);
+  const selectAnchorRef = useRef<number | null>(null);
+  const [hoverHandle, setHoverHandle] = useState<WaveformHandle | null>(null);
+  const [dragHandle, setDragHandle] = useState<WaveformHandle | null>(null);
+  const [showMid, setShowMid] = useState(false);
+  const [zoom, setZoom] = useState({
+    buffer: audioBuffer,
+    view: { start: 0, end: audioBuffer.duration },
+    playbackTime: 0,
+  });
+
+  const [, setPreparedMixes] = useState(0);
+  const invertKey = settings.invertPolarity.map(Number).join("");
+
+  // Mixes with flipped channels are summarised on the worker; redraw once
+  // one is ready
+  useEffect(() => {
+    let isCancelled = false;
+    const invert = invertKey.split("").map((flag) => flag === "1");
+    prepareMidCache(audioBuffer, invert).then(
+      () => {
+        if (!isCancelled) setPreparedMixes((count) => count + 1);
+      },
+      (err) => console.error("Mid peaks error:", err),
+    );
+    return () => {
+      isCancelled = true;
+    };
+  }, [audioBuffer, invertKey]);
+
+  const totalDuration = audioBuffer.duration;
+  const playbackTime = playbackPosition * totalDuration;
+  // Lanes follow the output channel layout, not the source's
+  const outputChannels = getChannelRouting(
+    settings.channels,
+    audioBuffer.numberOfChannels,
+  ).length;
+  const isMultichannel = outputChannels > 1;
+  const isMidView = showMid && isMultichannel;
+  const laneLabels = isMidView ? ["Mid"] : getChannelLabels(outputChannels);
+  const canvasHeight =
+    laneLabels.length === 1
+      ? SINGLE_LANE_HEIGHT
+      : Math.max(SINGLE_LANE_HEIGHT, laneLabels.length * MIN_LANE_HEIGHT);
+
+  // Show the whole file again whenever a new buffer is loaded
+  if (zoom.buffer !== audioBuffer) {
+    setZoom({
+      buffer: audioBuffer,
+      view: { start: 0, end: totalDuration },
+      playbackTime,
+    });
+  } else if (zoom.playbackTime !== playbackTime) {
+    // Page along with the playhead when it moves off screen
+    const { view } = zoom;
+    const span = view.end - view.start;
+    const isOffScreen =
+      playbackTime > 0 &&
+      (playbackTime < view.start || playbackTime > view.end);
+    setZoom({
+      ...zoom,
+      view: isOffScreen
+        ? clampView(
+            { start: playbackTime, end: playbackTime + span },
+            totalDuration,
+            span,
+          )
+        : view,
+      playbackTime,
+    });
+  }
+
+  const view = zoom.view;
+  const viewSpan = view.end - view.start;
+  const isZoomed = viewSpan < totalDuration;
+  const activeHandle = dragHandle ?? hoverHandle;
+  const handleTimes = getHandleTimes(settings, selection);
+  const activeTime = activeHandle ? handleTimes[activeHandle] : undefined;
+
+  const updateView = (next: TimeRange) => {
+    const width = canvasRef.current?.getBoundingClientRect().width || 1;
+    const minSpan = width / MAX_PIXELS_PER_SAMPLE / audioBuffer.sampleRate;
+    setZoom({
+      ...zoom,
+      view: clampView(next, totalDuration, minSpan),
+    });
+  };
+
+  /**
+   * Scale the visible span by `factor`, keeping `anchor` (0-1 across the
+   * canvas) at the same time
+   */
+  const zoomAround = (factor: number, anchor: number, from = view) => {
+    const span = from.end - from.start;
+    const anchorTime = from.start + anchor * span;
+    const nextSpan = span * factor;
+    updateView({
+      start: anchorTime - anchor * nextSpan,
+      end: anchorTime + (1 - anchor) * nextSpan,
+    });
+  };
 
   useEffect(() => {
     const draw = () => {
@@ -46,21 +417,32 @@ export default function WaveformDisplay({
 
       const width = rect.width;
       const height = rect.height;
-      const midY = height / 2;
 
       ctx.clearRect(0, 0, width, height);
 
-      const numBuckets = Math.floor(width);
-      const { positive, negative } = extractWaveformPeaks(
-        audioBuffer,
-        numBuckets,
-      );
+      const sampleRate = audioBuffer.sampleRate;
+      const startSample = view.start * sampleRate;
+      const samplesPerPixel = (viewSpan * sampleRate) / width;
+      const lanes = getLanes(audioBuffer, settings, isMidView);
+      const mirror = settings.reverse
+        ? {
+            start: Math.round(settings.cropStart * sampleRate),
+            end: Math.round(settings.cropEnd * sampleRate),
+          }
+        : null;
+      const laneHeight = height / lanes.length;
 
-      const totalDuration = audioBuffer.duration;
-      const cropStartPx = (settings.cropStart / totalDuration) * width;
-      const cropEndPx = (settings.cropEnd / totalDuration) * width;
+      const toPx = (time: number) => ((time - view.start) / viewSpan) * width;
+      const cropStartPx = toPx(settings.cropStart);
+      const cropEndPx = toPx(settings.cropEnd);
+      const keptRanges = getKeptRanges(settings).map((range) => ({
+        start: toPx(range.start),
+        end: toPx(range.end),
+      }));
+      const isKept = (x: number) =>
+        keptRanges.some((range) => x >= range.start && x <= range.end);
 
-      // Draw dimmed region outside crop
+      // Draw dimmed region outside crop and inside every cut
       const isDark =
         document.documentElement.getAttribute("data-mode") === "dark";
       ctx.fillStyle = isDark
@@ -68,32 +450,42 @@ export default function WaveformDisplay({
         : "rgba(0, 0, 0, 0.06)";
       ctx.fillRect(0, 0, cropStartPx, height);
       ctx.fillRect(cropEndPx, 0, width - cropEndPx, height);
+      for (let i = 1; i < keptRanges.length; i++) {
+        const cutStartPx = keptRanges[i - 1].end;
+        ctx.fillRect(cutStartPx, 0, keptRanges[i].start - cutStartPx, height);
+      }
 
-      // Draw waveform
-      for (let i = 0; i < numBuckets; i++) {
-        const x = i;
-        const isInCrop = x >= cropStartPx && x <= cropEndPx;
-
-        if (isInCrop) {
-          ctx.fillStyle = isDark
-            ? "rgba(100, 160, 255, 0.8)"
-            : "rgba(0, 112, 243, 0.7)";
-        } else {
-          ctx.fillStyle = isDark
-            ? "rgba(255, 255, 255, 0.15)"
-            : "rgba(0, 0, 0, 0.15)";
-        }
-
-        const posHeight = positive[i] * midY * 0.9;
-        const negHeight = -negative[i] * midY * 0.9;
+      const keptColor = isDark
+        ? "rgba(100, 160, 255, 0.8)"
+        : "rgba(0, 112, 243, 0.7)";
+      const removedColor = isDark
+        ? "rgba(255, 255, 255, 0.15)"
+        : "rgba(0, 0, 0, 0.15)";
 
-        ctx.fillRect(x, midY - posHeight, 1, posHeight + negHeight);
-      }
+      // Draw waveform, one lane per channel
+      lanes.forEach(({ cache, gain }, lane) => {
+        if (!cache) return;
+        drawLane(
+          ctx,
+          cache,
+          {
+            top: lane * laneHeight,
+            height: laneHeight,
+            width,
+            startSample,
+            samplesPerPixel,
+            gain,
+            mirror,
+          },
+          isKept,
+          keptColor,
+          removedColor,
+        );
+      });
 
       // Draw fade regions
-      if (settings.fadeIn.enabled && settings.fadeIn.duration > 0) {
-        const fadeEndPx =
-          cropStartPx + (settings.fadeIn.duration / totalDuration) * width;
+      if (handleTimes.fadeIn !== undefined) {
+        const fadeEndPx = toPx(handleTimes.fadeIn);
         const gradient = ctx.createLinearGradient(cropStartPx, 0, fadeEndPx, 0);
         gradient.addColorStop(
           0,
@@ -104,9 +496,8 @@ export default function WaveformDisplay({
         ctx.fillRect(cropStartPx, 0, fadeEndPx - cropStartPx, height);
       }
 
-      if (settings.fadeOut.enabled && settings.fadeOut.duration > 0) {
-        const fadeStartPx =
-          cropEndPx - (settings.fadeOut.duration / totalDuration) * width;
+      if (handleTimes.fadeOut !== undefined) {
+        const fadeStartPx = toPx(handleTimes.fadeOut);
         const gradient = ctx.createLinearGradient(fadeStartPx, 0, cropEndPx, 0);
         gradient.addColorStop(0, "transparent");
         gradient.addColorStop(
@@ -134,11 +525,95 @@ export default function WaveformDisplay({
       ctx.lineTo(cropEndPx, height);
       ctx.stroke();
 
+      // Draw cut boundary lines
+      ctx.setLineDash([2, 3]);
+      for (let i = 1; i < keptRanges.length; i++) {
+        for (const cutEdgePx of [keptRanges[i - 1].end, keptRanges[i].start]) {
+          ctx.beginPath();
+          ctx.moveTo(cutEdgePx, 0);
+          ctx.lineTo(cutEdgePx, height);
+          ctx.stroke();
+        }
+      }
+
       ctx.setLineDash([]);
 
+      // Draw the edges of the fades and highlight the active handle
+      for (const handle of ["fadeIn", "fadeOut"] as const) {
+        const time = handleTimes[handle];
+        if (time === undefined) continue;
+        ctx.strokeStyle = isDark
+          ? "rgba(255, 200, 50, 0.6)"
+          : "rgba(255, 160, 0, 0.6)";
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(toPx(time), 0);
+        ctx.lineTo(toPx(time), height);
+        ctx.stroke();
+      }
+
+      // Tint detected pauses
+      ctx.fillStyle = isDark
+        ? "rgba(90, 170, 255, 0.15)"
+        : "rgba(30, 110, 220, 0.12)";
+      for (const region of pauseRegions) {
+        const pauseStartPx = toPx(region.start);
+        const pauseEndPx = toPx(region.end);
+        if (pauseEndPx < 0 || pauseStartPx > width) continue;
+        ctx.fillRect(pauseStartPx, 0, pauseEndPx - pauseStartPx, height);
+      }
+
+      // Mark where the export clips
+      ctx.fillStyle = isDark
+        ? "rgba(255, 90, 90, 0.6)"
+        : "rgba(220, 30, 30, 0.5)";
+      for (const region of clipRegions) {
+        const clipStartPx = toPx(region.start);
+        const clipWidth = Math.max(2, toPx(region.end) - clipStartPx);
+        if (clipStartPx + clipWidth < 0 || clipStartPx > width) continue;
+        ctx.fillRect(clipStartPx, 0, clipWidth, height);
+      }
+
+      // Draw the selection with its A/B edges
+      if (selection) {
+        const selStartPx = toPx(selection.start);
+        const selEndPx = toPx(selection.end);
+        ctx.fillStyle = isDark
+          ? "rgba(180, 120, 255, 0.15)"
+          : "rgba(130, 60, 220, 0.1)";
+        ctx.fillRect(selStartPx, 0, selEndPx - selStartPx, height);
+        ctx.strokeStyle = isDark
+          ? "rgba(180, 120, 255, 0.8)"
+          : "rgba(130, 60, 220, 0.7)";
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.lineWidth = 1;
+        ctx.font = "bold 10px sans-serif";
+        for (const [label, px] of [
+          ["A", selStartPx],
+          ["B", selEndPx],
+        ] as const) {
+          ctx.beginPath();
+          ctx.moveTo(px, 0);
+          ctx.lineTo(px, height);
+          ctx.stroke();
+          ctx.fillText(label, px + 3, 11);
+        }
+      }
+
+      if (activeTime !== undefined) {
+        ctx.strokeStyle = isDark
+          ? "rgba(100, 160, 255, 0.9)"
+          : "rgba(0, 112, 243, 0.9)";
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(toPx(activeTime), 0);
+        ctx.lineTo(toPx(activeTime), height);
+        ctx.stroke();
+      }
+
       // Draw playback position
       if (playbackPosition > 0) {
-        const playPx = playbackPosition * width;
+        const playPx = toPx(playbackTime);
         ctx.strokeStyle = isDark ? "#ffffff" : "#000000";
         ctx.lineWidth = 1.5;
         ctx.beginPath();
@@ -147,15 +622,27 @@ export default function WaveformDisplay({
         ctx.stroke();
       }
 
-      // Draw center line
+      // Draw center line of each lane and the separators between lanes
       ctx.strokeStyle = isDark
         ? "rgba(255, 255, 255, 0.08)"
         : "rgba(0, 0, 0, 0.06)";
       ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.moveTo(0, midY);
-      ctx.lineTo(width, midY);
-      ctx.stroke();
+      for (let lane = 0; lane < lanes.length; lane++) {
+        const laneMidY = (lane + 0.5) * laneHeight;
+        ctx.beginPath();
+        ctx.moveTo(0, laneMidY);
+        ctx.lineTo(width, laneMidY);
+        ctx.stroke();
+      }
+      ctx.strokeStyle = isDark
+        ? "rgba(255, 255, 255, 0.2)"
+        : "rgba(0, 0, 0, 0.15)";
+      for (let lane = 1; lane < lanes.length; lane++) {
+        ctx.beginPath();
+        ctx.moveTo(0, lane * laneHeight);
+        ctx.lineTo(width, lane * laneHeight);
+        ctx.stroke();
+      }
     };
 
     draw();
@@ -168,28 +655,243 @@ export default function WaveformDisplay({
     return () => resizeObserver.disconnect();
   });
 
-  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  // Wheel zooms and scrolls; listened to natively so it can preventDefault
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const anchor = (e.clientX - rect.left) / rect.width;
+      const isHorizontal =
+        e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY);
+
+      if (e.ctrlKey || e.metaKey || !isHorizontal) {
+        // Trackpad pinches arrive as ctrl+wheel with small deltas
+        const speed =
+          e.ctrlKey || e.metaKey ? PINCH_WHEEL_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+        zoomAround(Math.exp(e.deltaY * speed), anchor);
+      } else {
+        const delta = ((e.deltaX || e.deltaY) / rect.width) * viewSpan;
+        updateView({ start: view.start + delta, end: view.end + delta });
+      }
+    };
+
+    canvas.addEventListener("wheel", onWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", onWheel);
+  });
+
+  const getPointerTime = (e: React.PointerEvent<HTMLCanvasElement>) => {
     const rect = e.currentTarget.getBoundingClientRect();
     const x = e.clientX - rect.left;
-    const ratio = x / rect.width;
-    const time = ratio * audioBuffer.duration;
-    onSeek(time);
+    const ratio = Math.max(0, Math.min(1, x / rect.width));
+    return view.start + ratio * viewSpan;
   };
 
+  const findHandle = (
+    e: React.PointerEvent<HTMLCanvasElement>,
+  ): WaveformHandle | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    let closest: WaveformHandle | null = null;
+    let closestDistance = HANDLE_HIT_RADIUS;
+    for (const [handle, time] of Object.entries(handleTimes)) {
+      const distance = Math.abs(
+        ((time - view.start) / viewSpan) * rect.width - x,
+      );
+      if (distance <= closestDistance) {
+        closest = handle as WaveformHandle;
+        closestDistance = distance;
+      }
+    }
+    return closest;
+  };
+
+  const getPinchDistance = () => {
+    const [a, b] = [...pointersRef.current.values()];
+    return Math.abs(a - b);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.set(e.pointerId, e.clientX);
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (pointersRef.current.size === 2) {
+      // Second finger down: pinch instead of dragging
+      setDragHandle(null);
+      pinchRef.current = { distance: getPinchDistance(), view };
+      return;
+    }
+
+    const handle = findHandle(e);
+    if (handle) {
+      setDragHandle(handle);
+    } else if (e.shiftKey) {
+      selectAnchorRef.current = getPointerTime(e);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (pointersRef.current.has(e.pointerId)) {
+      pointersRef.current.set(e.pointerId, e.clientX);
+    }
+
+    const pinch = pinchRef.current;
+    if (pinch && pointersRef.current.size === 2) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const [a, b] = [...pointersRef.current.values()];
+      const anchor = ((a + b) / 2 - rect.left) / rect.width;
+      zoomAround(
+        pinch.distance / Math.max(1, getPinchDistance()),
+        anchor,
+        pinch.view,
+      );
+    } else if (dragHandle) {
+      onDragHandle(dragHandle, getPointerTime(e));
+    } else if (selectAnchorRef.current !== null) {
+      const anchor = selectAnchorRef.current;
+      const time = getPointerTime(e);
+      onSelect({ start: Math.min(anchor, time), end: Math.max(anchor, time) });
+    } else {
+      setHoverHandle(findHandle(e));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+
+    if (pinchRef.current) {
+      if (pointersRef.current.size === 0) pinchRef.current = null;
+      return;
+    }
+    if (dragHandle) {
+      setDragHandle(null);
+      return;
+    }
+    const anchor = selectAnchorRef.current;
+    if (anchor !== null) {
+      // A shift+click without dragging clears the selection
+      selectAnchorRef.current = null;
+      if (Math.abs(getPointerTime(e) - anchor) < MIN_EDIT_LENGTH) {
+        onSelect(null);
+      }
+      return;
+    }
+    onSeek(getPointerTime(e));
+  };
+
+  const handleThumbPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    thumbDragRef.current = { x: e.clientX, start: view.start };
+  };
+
+  const handleThumbPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = thumbDragRef.current;
+    const track = e.currentTarget.parentElement;
+    if (!drag || !track) return;
+    const delta =
+      ((e.clientX - drag.x) / track.getBoundingClientRect().width) *
+      totalDuration;
+    updateView({
+      start: drag.start + delta,
+      end: drag.start + delta + viewSpan,
+    });
+  };
+
+  const handleTrackPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const center = ((e.clientX - rect.left) / rect.width) * totalDuration;
+    updateView({ start: center - viewSpan / 2, end: center + viewSpan / 2 });
+  };
+
+  const toPercent = (time: number) => ((time - view.start) / viewSpan) * 100;
+
   return (
     <div ref={containerRef} className={containerStyles()}>
-      <canvas
-        ref={canvasRef}
-        className="w-full cursor-crosshair"
-        style={{ height: "140px" }}
-        onClick={handleClick}
-      />
-      <span className={timestampStyles()} style={{ left: "4px" }}>
-        {formatTime(settings.cropStart)}
-      </span>
-      <span className={timestampStyles()} style={{ right: "4px" }}>
-        {formatTime(settings.cropEnd)}
-      </span>
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          className={`w-full touch-none ${activeHandle ? "cursor-ew-resize" : "cursor-crosshair"}`}
+          style={{ height: `${canvasHeight}px` }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={() => setHoverHandle(null)}
+        />
+        {isMultichannel &&
+          laneLabels.map((label, lane) => (
+            <span
+              key={label}
+              className={laneLabelStyles()}
+              style={{ top: `${(lane / laneLabels.length) * 100}%` }}
+            >
+              {label}
+            </span>
+          ))}
+        {activeHandle && activeTime !== undefined && (
+          <span
+            className={handleTooltipStyles()}
+            style={{ left: `${toPercent(activeTime)}%` }}
+          >
+            {describeHandle(activeHandle, settings, selection)}
+          </span>
+        )}
+        <span className={timestampStyles()} style={{ left: "4px" }}>
+          {formatTime(isZoomed ? view.start : settings.cropStart)}
+        </span>
+        <span className={timestampStyles()} style={{ right: "4px" }}>
+          {formatTime(isZoomed ? view.end : settings.cropEnd)}
+        </span>
+      </div>
+      {(isZoomed || isMultichannel) && (
+        <div className={zoomBarStyles()}>
+          {isZoomed ? (
+            <div
+              className={scrollTrackStyles()}
+              onPointerDown={handleTrackPointerDown}
+            >
+              <div
+                className={scrollThumbStyles()}
+                style={{
+                  left: `${(view.start / totalDuration) * 100}%`,
+                  width: `${(viewSpan / totalDuration) * 100}%`,
+                }}
+                onPointerDown={handleThumbPointerDown}
+                onPointerMove={handleThumbPointerMove}
+                onPointerUp={() => {
+                  thumbDragRef.current = null;
+                }}
+              />
+            </div>
+          ) : (
+            <div className="flex-1" />
+          )}
+          {isMultichannel && (
+            <Switch
+              size="sm"
+              label="Mid"
+              checked={showMid}
+              onCheckedChange={setShowMid}
+            />
+          )}
+          {isZoomed && (
+            <Button
+              onClick={() => updateView({ start: 0, end: totalDuration })}
+              type="button"
+              variant="ghost"
+              size="xs"
+            >
+              Fit
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
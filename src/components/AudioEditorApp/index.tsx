@@ -1,142 +1,446 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import type {
   AudioEditSettings,
   ExportFormat,
+  TimeRange,
 } from "../../utils/audioProcessing";
 import {
+  analyzeClipping,
+  clampCropEnd,
+  clampCropStart,
+  clampFadeDuration,
   decodeAudioFile,
+  detectSilence,
   exportAudio,
   getDefaultSettings,
+  getEditedFileName,
+  getEditTimeline,
+  getInternalPauses,
+  getNormalizeGain,
+  getOutputDuration,
+  getPauseCuts,
+  getSilenceTrim,
+  MIN_EDIT_LENGTH,
+  outputTimeToSourceTime,
   processAudio,
+  sourceTimeToOutputTime,
 } from "../../utils/audioProcessing";
+import type { BatchCropMode } from "../../utils/batch";
+import {
+  type Clip,
+  type ClipJoin,
+  concatenateClips,
+  conformClipRate,
+  createClipRangeMap,
+  DEFAULT_CLIP_JOIN,
+} from "../../utils/clips";
+import { downloadBlob } from "../../utils/download";
+import type { ClippingReport } from "../../utils/limiter";
+import {
+  applyPreset,
+  createPreset,
+  type Preset,
+  parsePreset,
+} from "../../utils/presets";
+import { loadSession, restoreSettings } from "../../utils/sessionStore";
+import { DEFAULT_WAV_OPTIONS, type WavOptions } from "../../utils/wavEncoder";
+import { prepareWaveformCaches } from "../../utils/waveformAnalysis";
 import AudioToolbar from "./AudioToolbar";
 import AudioUpload from "./AudioUpload";
+import BatchControl from "./BatchControl";
+import ChannelControl from "./ChannelControl";
+import ClipsControl from "./ClipsControl";
+import CompressorControl from "./CompressorControl";
 import CropControls from "./CropControls";
+import CutControls from "./CutControls";
+import EqualizerControl from "./EqualizerControl";
 import FadeControl from "./FadeControl";
+import LimiterControl from "./LimiterControl";
+import LoadProgress, { type LoadProgressState } from "./LoadProgress";
+import LoudnessControl from "./LoudnessControl";
+import NoiseReductionControl from "./NoiseReductionControl";
 import PlaybackControls from "./PlaybackControls";
+import PresetControl from "./PresetControl";
+import RecentSessions from "./RecentSessions";
+import RecordControl from "./RecordControl";
+import ReverseControl from "./ReverseControl";
+import SilenceControl, {
+  DEFAULT_SILENCE_OPTIONS,
+  type SilenceOptions,
+} from "./SilenceControl";
+import SpeedControl from "./SpeedControl";
+import { useBatchExport } from "./useBatchExport";
+import { useEditHistory } from "./useEditHistory";
+import { useEditLoudness } from "./useEditLoudness";
+import { usePresets } from "./usePresets";
+import { usePreviewPlayer } from "./usePreviewPlayer";
+import { useProcessedSource } from "./useProcessedSource";
+import { useRecentSessions } from "./useRecentSessions";
+import { useSessionAutosave } from "./useSessionAutosave";
+import { useSilenceDetection } from "./useSilenceDetection";
 import VolumeControl from "./VolumeControl";
-import WaveformDisplay from "./WaveformDisplay";
+import WaveformDisplay, { type WaveformHandle } from "./WaveformDisplay";
 
 interface AudioData {
-  file: File;
-  buffer: AudioBuffer;
+  id: string; // the auto-saved session
+  file: File; // the first clip's, which names the export
+  buffer: AudioBuffer; // every clip joined into one source
+  clips: Clip[];
+}
+
+interface EditorState {
+  audioData: AudioData;
+  settings: AudioEditSettings;
+}
+
+const SETTING_LABELS: Record<keyof AudioEditSettings, string> = {
+  cropStart: "crop start",
+  cropEnd: "crop end",
+  cuts: "cuts",
+  reverse: "reverse",
+  volume: "volume",
+  speed: "speed",
+  eq: "EQ",
+  compressor: "compressor",
+  noiseReduction: "noise reduction",
+  channels: "channels",
+  invertPolarity: "polarity",
+  normalize: "loudness normalization",
+  limiter: "limiter",
+  fadeIn: "fade in",
+  fadeOut: "fade out",
+};
+
+/**
+ * Text inputs keep their native undo; everything else gets the editor's
+ */
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) {
+    return true;
+  }
+  return (
+    target instanceof HTMLInputElement &&
+    !["range", "checkbox", "radio", "button"].includes(target.type)
+  );
 }
 
 export default function AudioEditorApp() {
-  const [audioData, setAudioData] = useState<AudioData | null>(null);
+  const { state, commit, undo, redo, undoLabel, redoLabel } =
+    useEditHistory<EditorState | null>(null);
+  const audioData = state?.audioData ?? null;
+  const settings = state?.settings ?? null;
   const [isOpusLoading, setIsOpusLoading] = useState(false);
   const [isWavLoading, setIsWavLoading] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [settings, setSettings] = useState<AudioEditSettings | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [wavOptions, setWavOptions] = useState<WavOptions>(DEFAULT_WAV_OPTIONS);
+  const [outputSampleRate, setOutputSampleRate] = useState<number | null>(null);
+  const processOptions = { sampleRate: outputSampleRate ?? undefined };
+  const [loadProgress, setLoadProgress] = useState<LoadProgressState | null>(
+    null,
+  );
   const [playbackPosition, setPlaybackPosition] = useState(0);
+  const [isLooping, setIsLooping] = useState(false);
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const [isLoudnessShown, setIsLoudnessShown] = useState(false);
+  const [clipping, setClipping] = useState<{
+    settings: AudioEditSettings;
+    sampleRate: number | null;
+    report: ClippingReport;
+  } | null>(null);
+  const [isCheckingClipping, setIsCheckingClipping] = useState(false);
+  const [silenceOptions, setSilenceOptions] = useState<SilenceOptions>(
+    DEFAULT_SILENCE_OPTIONS,
+  );
+  const [isTrimmingSilence, setIsTrimmingSilence] = useState(false);
+  const [isUpdatingClips, setIsUpdatingClips] = useState(false);
+  const [batchCrop, setBatchCrop] = useState<BatchCropMode>("relative");
+  const [batchFormat, setBatchFormat] = useState<ExportFormat>("wav");
+  const batch = useBatchExport();
+  const presets = usePresets();
+  const saveStatus = useSessionAutosave(audioData, settings);
+  const recentSessions = useRecentSessions(!audioData && !loadProgress);
 
-  const audioCtxRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const playbackStartTimeRef = useRef(0);
-  const playbackOffsetRef = useRef(0);
-  const animFrameRef = useRef<number>(0);
-
-  const stopPlayback = () => {
-    if (sourceNodeRef.current) {
-      try {
-        sourceNodeRef.current.stop();
-      } catch {
-        // ignore
-      }
-      sourceNodeRef.current = null;
-    }
-    if (animFrameRef.current) {
-      cancelAnimationFrame(animFrameRef.current);
-      animFrameRef.current = 0;
-    }
-    setIsPlaying(false);
-  };
+  const {
+    buffer: previewBuffer,
+    settings: processedSettings,
+    isProcessing: isProcessingSource,
+  } = useProcessedSource(audioData?.buffer ?? null, settings);
+  const { measurement: loudness, isMeasuring: isMeasuringLoudness } =
+    useEditLoudness(
+      previewBuffer,
+      processedSettings,
+      isLoudnessShown || !!settings?.normalize.enabled,
+    );
+  const normalizeGain =
+    settings?.normalize.enabled && loudness
+      ? getNormalizeGain(loudness, settings.normalize)
+      : null;
+  const silence = useSilenceDetection(
+    audioData?.buffer ?? null,
+    silenceOptions.threshold,
+    silenceOptions.minDuration,
+    silenceOptions.showPauses,
+  );
+  const pauses =
+    silence && settings ? getInternalPauses(silence, settings) : null;
+  // Preview plays at the gain normalization will export with
+  const previewSettings =
+    processedSettings && normalizeGain !== null
+      ? { ...processedSettings, volume: normalizeGain }
+      : processedSettings;
+
+  const {
+    isPlaying,
+    play,
+    stop: stopPlayback,
+    getGainReduction,
+  } = usePreviewPlayer({
+    sourceBuffer: previewBuffer,
+    settings: previewSettings,
+    loopRange:
+      isLooping && settings
+        ? (selection ?? { start: settings.cropStart, end: settings.cropEnd })
+        : null,
+    onPositionChange: (time) => {
+      if (audioData) setPlaybackPosition(time / audioData.buffer.duration);
+    },
+    onEnded: () => setPlaybackPosition(0),
+  });
 
-  // Cleanup on unmount
+  // Stop preview whenever the loaded audio changes (open, reset, undo/redo)
   useEffect(() => {
-    return () => {
-      stopPlayback();
-      if (audioCtxRef.current) {
-        audioCtxRef.current.close();
+    if (!audioData) setPlaybackPosition(0);
+    setSelection(null);
+    stopPlayback();
+  }, [audioData, stopPlayback]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextEntryTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
       }
     };
-    // biome-ignore lint/correctness/useExhaustiveDependencies: stopPlayback is stable since react compiler
-  }, [stopPlayback]);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+
+  /**
+   * Decode files into clips at the timeline's sample rate, the first
+   * file's when there is no timeline yet. A single file reports reading and
+   * decoding separately; several report one reading bar across all of them.
+   */
+  const decodeClips = async (
+    files: File[],
+    sampleRate?: number,
+  ): Promise<Clip[]> => {
+    const clips: Clip[] = [];
+    for (const [i, file] of files.entries()) {
+      const decoded = await decodeAudioFile(file, (progress) =>
+        setLoadProgress(
+          files.length > 1
+            ? { stage: "reading", progress: (i + progress) / files.length }
+            : progress < 1
+              ? { stage: "reading", progress }
+              : { stage: "decoding", progress: 0 },
+        ),
+      );
+      const buffer = await conformClipRate(
+        decoded,
+        sampleRate ?? clips[0]?.buffer.sampleRate ?? decoded.sampleRate,
+      );
+      clips.push({ file, buffer, join: DEFAULT_CLIP_JOIN });
+    }
+    return clips;
+  };
 
-  const handleAudioSelected = async (file: File) => {
-    setIsLoading(true);
+  const handleAudioSelected = async (files: File[]) => {
+    setLoadProgress({ stage: "reading", progress: 0 });
     try {
-      const buffer = await decodeAudioFile(file);
-      setAudioData({ file, buffer });
-      setSettings(getDefaultSettings(buffer.duration));
+      const clips = await decodeClips(files);
+      const buffer = concatenateClips(clips);
+      await prepareWaveformCaches(buffer, (progress) =>
+        setLoadProgress({ stage: "analyzing", progress }),
+      );
+      commit(
+        () => ({
+          audioData: {
+            id: crypto.randomUUID(),
+            file: clips[0].file,
+            buffer,
+            clips,
+          },
+          settings: getDefaultSettings(buffer.duration),
+        }),
+        files.length > 1
+          ? `Open ${files.length} files`
+          : `Open ${files[0].name}`,
+      );
       setPlaybackPosition(0);
     } catch (err) {
       console.error("Error decoding audio:", err);
       alert("Failed to decode audio file. Please try a different format.");
     } finally {
-      setIsLoading(false);
+      setLoadProgress(null);
     }
   };
 
-  const handlePreview = async () => {
-    if (!audioData || !settings) return;
-
-    if (isPlaying) {
-      stopPlayback();
-      return;
-    }
-
+  /**
+   * Reopen an auto-saved session exactly as it was left. Settings saved
+   * before a setting existed get its default.
+   */
+  const handleOpenSession = async (id: string) => {
+    setLoadProgress({ stage: "reading", progress: 0 });
     try {
-      const processedBuffer = await processAudio(audioData.buffer, settings);
-
-      if (!audioCtxRef.current || audioCtxRef.current.state === "closed") {
-        audioCtxRef.current = new AudioContext();
-      }
-
-      const ctx = audioCtxRef.current;
-      if (ctx.state === "suspended") {
-        await ctx.resume();
-      }
+      const session = await loadSession(id);
+      const clips = (
+        await decodeClips(session.clips.map((clip) => clip.file))
+      ).map((clip, i) => ({ ...clip, join: session.clips[i].join }));
+      const buffer = concatenateClips(clips);
+      await prepareWaveformCaches(buffer, (progress) =>
+        setLoadProgress({ stage: "analyzing", progress }),
+      );
+      commit(
+        () => ({
+          audioData: { id, file: clips[0].file, buffer, clips },
+          settings: restoreSettings(
+            session.settings,
+            getDefaultSettings(buffer.duration),
+          ),
+        }),
+        `Open ${session.name}`,
+      );
+      setPlaybackPosition(0);
+    } catch (err) {
+      console.error("Session open error:", err);
+      alert("Failed to open the saved project");
+    } finally {
+      setLoadProgress(null);
+    }
+  };
 
-      const source = ctx.createBufferSource();
-      source.buffer = processedBuffer;
-      source.connect(ctx.destination);
+  /**
+   * Rebuild the source from a new clip arrangement. Crop, cuts and the
+   * noise profile move with the clips they fall in; those in a removed
+   * clip are dropped (a crop goes back to the whole timeline). Every other
+   * setting carries across.
+   */
+  const commitClips = async (clips: Clip[], label: string) => {
+    const buffer = concatenateClips(clips);
+    await prepareWaveformCaches(buffer);
+    commit((prev) => {
+      if (!prev) return prev;
+      const mapRange = createClipRangeMap(prev.audioData.clips, clips);
+      const { cropStart, cropEnd, cuts, noiseReduction } = prev.settings;
+      const isWholeCrop =
+        cropStart === 0 && cropEnd === prev.audioData.buffer.duration;
+      const crop = isWholeCrop
+        ? null
+        : mapRange({ start: cropStart, end: cropEnd });
+      const isCropKept = !!crop && crop.end - crop.start >= MIN_EDIT_LENGTH;
+      const profile =
+        noiseReduction.profile && mapRange(noiseReduction.profile);
+      return {
+        audioData: {
+          id: prev.audioData.id,
+          file: clips[0].file,
+          buffer,
+          clips,
+        },
+        settings: {
+          ...prev.settings,
+          cropStart: isCropKept ? crop.start : 0,
+          cropEnd: isCropKept ? crop.end : buffer.duration,
+          cuts: cuts.flatMap((cut) => mapRange(cut) ?? []),
+          noiseReduction: {
+            ...noiseReduction,
+            enabled: noiseReduction.enabled && profile !== null,
+            profile,
+          },
+        },
+      };
+    }, label);
+    setPlaybackPosition(0);
+  };
 
-      sourceNodeRef.current = source;
-      playbackStartTimeRef.current = ctx.currentTime;
-      playbackOffsetRef.current = settings.cropStart;
+  const updateClips = async (
+    getClips: (clips: Clip[]) => Promise<Clip[]> | Clip[],
+    label: string,
+    errorMessage: string,
+  ) => {
+    if (!audioData) return;
+    setIsUpdatingClips(true);
+    try {
+      await commitClips(await getClips(audioData.clips), label);
+    } catch (err) {
+      console.error("Clip update error:", err);
+      alert(errorMessage);
+    } finally {
+      setIsUpdatingClips(false);
+    }
+  };
 
-      source.onended = () => {
-        stopPlayback();
-        setPlaybackPosition(0);
-      };
+  const handleAddClips = (files: File[]) =>
+    updateClips(
+      async (clips) => [
+        ...clips,
+        ...(await decodeClips(files, clips[0].buffer.sampleRate)),
+      ],
+      files.length > 1 ? `Add ${files.length} clips` : `Add ${files[0].name}`,
+      "Failed to decode audio file. Please try a different format.",
+    ).finally(() => setLoadProgress(null));
 
-      source.start(0);
-      setIsPlaying(true);
+  const handleMoveClip = (index: number, offset: -1 | 1) =>
+    updateClips(
+      (clips) => {
+        const moved = [...clips];
+        [moved[index], moved[index + offset]] = [
+          moved[index + offset],
+          moved[index],
+        ];
+        return moved;
+      },
+      "Reorder clips",
+      "Failed to reorder clips",
+    );
 
-      const duration = processedBuffer.duration;
-      const totalDuration = audioData.buffer.duration;
+  const handleRemoveClip = (index: number) =>
+    updateClips(
+      (clips) => clips.filter((_, i) => i !== index),
+      `Remove ${audioData?.clips[index].file.name}`,
+      "Failed to remove clip",
+    );
 
-      const updatePosition = () => {
-        if (!audioCtxRef.current || !sourceNodeRef.current) return;
-        const elapsed =
-          audioCtxRef.current.currentTime - playbackStartTimeRef.current;
-        const currentAbsoluteTime = settings.cropStart + elapsed;
-        setPlaybackPosition(currentAbsoluteTime / totalDuration);
+  const handleClipJoinChange = (index: number, join: ClipJoin) =>
+    updateClips(
+      (clips) =>
+        clips.map((clip, i) => (i === index ? { ...clip, join } : clip)),
+      "Change clip join",
+      "Failed to join clips",
+    );
 
-        if (elapsed < duration) {
-          animFrameRef.current = requestAnimationFrame(updatePosition);
-        }
-      };
+  const handlePreview = () => {
+    if (!audioData) return;
 
-      animFrameRef.current = requestAnimationFrame(updatePosition);
-    } catch (err) {
-      console.error("Playback error:", err);
+    if (isPlaying) {
+      // Pause: the cursor stays where playback stopped
       stopPlayback();
+      return;
     }
+
+    play(playbackPosition * audioData.buffer.duration);
+  };
+
+  const handleStop = () => {
+    stopPlayback();
+    setPlaybackPosition(0);
   };
 
   const handleSeek = (time: number) => {
@@ -147,6 +451,7 @@ export default function AudioEditorApp() {
       Math.min(settings.cropEnd, time),
     );
     setPlaybackPosition(clampedTime / audioData.buffer.duration);
+    if (isPlaying) play(clampedTime);
   };
 
   const handleDownload = async (format: ExportFormat) => {
@@ -155,18 +460,20 @@ export default function AudioEditorApp() {
     const setLoading = format === "opus" ? setIsOpusLoading : setIsWavLoading;
     setLoading(true);
     try {
-      const processedBuffer = await processAudio(audioData.buffer, settings);
-      const { blob, extension } = await exportAudio(processedBuffer, format);
-
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      const nameWithoutExt = audioData.file.name.replace(/\.[^.]+$/, "");
-      link.href = url;
-      link.download = `${nameWithoutExt}-edited.${extension}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const processedBuffer = await processAudio(
+        audioData.buffer,
+        settings,
+        processOptions,
+      );
+      const report = await analyzeClipping(processedBuffer);
+      setClipping({ settings, sampleRate: outputSampleRate, report });
+      const { blob, extension } = await exportAudio(
+        processedBuffer,
+        format,
+        wavOptions,
+      );
+
+      downloadBlob(blob, getEditedFileName(audioData.file, extension));
     } catch (err) {
       console.error("Export error:", err);
       alert("Failed to export audio");
@@ -175,10 +482,136 @@ export default function AudioEditorApp() {
     }
   };
 
+  const handleRunBatch = () => {
+    if (!audioData || !settings) return;
+    batch.run(settings, {
+      crop: batchCrop,
+      trimStart: settings.cropStart,
+      trimEnd: audioData.buffer.duration - settings.cropEnd,
+      silence: silenceOptions,
+      format: batchFormat,
+      wavOptions,
+      processOptions,
+    });
+  };
+
+  const handleSavePreset = (name: string) => {
+    if (!settings) return;
+    presets.save(
+      createPreset(name, settings, {
+        format: batchFormat,
+        wavOptions,
+        sampleRate: outputSampleRate,
+      }),
+    );
+  };
+
+  const handleLoadPreset = (preset: Preset) => {
+    commit(
+      (prev) =>
+        prev && { ...prev, settings: applyPreset(preset, prev.settings) },
+      `Load preset ${preset.name}`,
+    );
+    setBatchFormat(preset.export.format);
+    setWavOptions(preset.export.wavOptions);
+    setOutputSampleRate(preset.export.sampleRate);
+  };
+
+  const handleExportPreset = (preset: Preset) => {
+    downloadBlob(
+      new Blob([JSON.stringify(preset, null, 2)], {
+        type: "application/json",
+      }),
+      `${preset.name}.preset.json`,
+    );
+  };
+
+  const handleImportPreset = async (file: File) => {
+    try {
+      presets.save(parsePreset(JSON.parse(await file.text())));
+    } catch (err) {
+      console.error("Preset import error:", err);
+      alert(
+        `Failed to import preset${err instanceof Error ? `: ${err.message}` : ""}`,
+      );
+    }
+  };
+
+  const handleCheckClipping = async () => {
+    if (!audioData || !settings) return;
+
+    setIsCheckingClipping(true);
+    try {
+      const processedBuffer = await processAudio(
+        audioData.buffer,
+        settings,
+        processOptions,
+      );
+      const report = await analyzeClipping(processedBuffer);
+      setClipping({ settings, sampleRate: outputSampleRate, report });
+    } catch (err) {
+      console.error("Clipping check error:", err);
+      alert("Failed to check for clipping");
+    } finally {
+      setIsCheckingClipping(false);
+    }
+  };
+
+  const handleTrimSilence = async () => {
+    if (!audioData) return;
+
+    setIsTrimmingSilence(true);
+    try {
+      const regions = await detectSilence(
+        audioData.buffer,
+        silenceOptions.threshold,
+        silenceOptions.minDuration,
+      );
+      const trim = getSilenceTrim(regions, audioData.buffer.duration);
+      if (!trim) {
+        alert("The whole file is below the silence threshold");
+        return;
+      }
+      commit(
+        (prev) =>
+          prev && {
+            ...prev,
+            settings: {
+              ...prev.settings,
+              cropStart: trim.start,
+              cropEnd: trim.end,
+            },
+          },
+        "Trim silence",
+      );
+    } catch (err) {
+      console.error("Silence detection error:", err);
+      alert("Failed to detect silence");
+    } finally {
+      setIsTrimmingSilence(false);
+    }
+  };
+
+  const handleShortenPauses = () => {
+    if (!pauses) return;
+    const pauseCuts = getPauseCuts(pauses, silenceOptions.maxPause);
+    if (pauseCuts.length === 0) return;
+    commit(
+      (prev) =>
+        prev && {
+          ...prev,
+          settings: {
+            ...prev.settings,
+            cuts: [...prev.settings.cuts, ...pauseCuts],
+          },
+        },
+      "Shorten pauses",
+    );
+  };
+
   const handleReset = () => {
     stopPlayback();
-    setAudioData(null);
-    setSettings(null);
+    commit(() => null, "Reset");
     setPlaybackPosition(0);
   };
 
@@ -186,86 +619,317 @@ export default function AudioEditorApp() {
     key: K,
     value: AudioEditSettings[K],
   ) => {
-    if (!settings) return;
-    setSettings({ ...settings, [key]: value });
+    commit(
+      (prev) =>
+        prev && { ...prev, settings: { ...prev.settings, [key]: value } },
+      `Change ${SETTING_LABELS[key]}`,
+      { mergeKey: key },
+    );
   };
 
-  const updateFadeIn = (updates: Partial<AudioEditSettings["fadeIn"]>) => {
-    if (!settings) return;
-    setSettings({
-      ...settings,
-      fadeIn: { ...settings.fadeIn, ...updates },
-    });
+  const updateGroup = <
+    K extends
+      | "speed"
+      | "eq"
+      | "compressor"
+      | "noiseReduction"
+      | "channels"
+      | "normalize"
+      | "limiter"
+      | "fadeIn"
+      | "fadeOut",
+  >(
+    key: K,
+    updates: Partial<AudioEditSettings[K]>,
+  ) => {
+    commit(
+      (prev) =>
+        prev && {
+          ...prev,
+          settings: {
+            ...prev.settings,
+            [key]: { ...prev.settings[key], ...updates },
+          },
+        },
+      `Change ${SETTING_LABELS[key]}`,
+      { mergeKey: key },
+    );
   };
 
-  const updateFadeOut = (updates: Partial<AudioEditSettings["fadeOut"]>) => {
-    if (!settings) return;
-    setSettings({
-      ...settings,
-      fadeOut: { ...settings.fadeOut, ...updates },
-    });
+  const updateSpeed = (updates: Partial<AudioEditSettings["speed"]>) =>
+    updateGroup("speed", updates);
+
+  const updateEq = (updates: Partial<AudioEditSettings["eq"]>) =>
+    updateGroup("eq", updates);
+
+  const updateCompressor = (
+    updates: Partial<AudioEditSettings["compressor"]>,
+  ) => updateGroup("compressor", updates);
+
+  const updateNoiseReduction = (
+    updates: Partial<AudioEditSettings["noiseReduction"]>,
+  ) => updateGroup("noiseReduction", updates);
+
+  const updateChannels = (updates: Partial<AudioEditSettings["channels"]>) =>
+    updateGroup("channels", updates);
+
+  const updateNormalize = (updates: Partial<AudioEditSettings["normalize"]>) =>
+    updateGroup("normalize", updates);
+
+  const updateLimiter = (updates: Partial<AudioEditSettings["limiter"]>) =>
+    updateGroup("limiter", updates);
+
+  const updateFadeIn = (updates: Partial<AudioEditSettings["fadeIn"]>) =>
+    updateGroup("fadeIn", updates);
+
+  const updateFadeOut = (updates: Partial<AudioEditSettings["fadeOut"]>) =>
+    updateGroup("fadeOut", updates);
+
+  const handleDragHandle = (handle: WaveformHandle, time: number) => {
+    if (!audioData || !settings) return;
+    const timeline = getEditTimeline(settings);
+    const outputTime = sourceTimeToOutputTime(timeline, time);
+    const outputDuration = getOutputDuration(timeline);
+
+    switch (handle) {
+      case "cropStart":
+        updateSetting("cropStart", clampCropStart(time, settings));
+        break;
+      case "cropEnd":
+        updateSetting(
+          "cropEnd",
+          clampCropEnd(time, settings, audioData.buffer.duration),
+        );
+        break;
+      case "fadeIn":
+        updateFadeIn({
+          duration: clampFadeDuration(outputTime, outputDuration),
+        });
+        break;
+      case "fadeOut":
+        updateFadeOut({
+          duration: clampFadeDuration(
+            outputDuration - outputTime,
+            outputDuration,
+          ),
+        });
+        break;
+      case "selectionStart":
+        setSelection(
+          (prev) =>
+            prev && {
+              ...prev,
+              start: Math.max(0, Math.min(time, prev.end - MIN_EDIT_LENGTH)),
+            },
+        );
+        break;
+      case "selectionEnd":
+        setSelection(
+          (prev) =>
+            prev && {
+              ...prev,
+              end: Math.min(
+                audioData.buffer.duration,
+                Math.max(time, prev.start + MIN_EDIT_LENGTH),
+              ),
+            },
+        );
+        break;
+    }
   };
 
   const duration = audioData?.buffer.duration ?? 0;
+  const timeline = settings ? getEditTimeline(settings) : [];
+  const outputDuration = getOutputDuration(timeline);
+  // Clip markers only apply to the settings and rate they were found with
+  const clipReport =
+    clipping?.settings === settings && clipping.sampleRate === outputSampleRate
+      ? clipping.report
+      : null;
+  const clipRegions = (clipReport?.regions ?? []).map((region) => ({
+    start: outputTimeToSourceTime(timeline, region.start),
+    end: outputTimeToSourceTime(timeline, region.end),
+  }));
+  const outputPosition =
+    playbackPosition > 0
+      ? sourceTimeToOutputTime(timeline, playbackPosition * duration)
+      : 0;
 
   return (
     <>
       <AudioToolbar
         audioData={audioData}
+        saveStatus={saveStatus}
         duration={duration}
         isOpusLoading={isOpusLoading}
         isWavLoading={isWavLoading}
         onDownload={handleDownload}
+        wavOptions={wavOptions}
+        onWavOptionsChange={setWavOptions}
+        outputSampleRate={outputSampleRate}
+        onOutputSampleRateChange={setOutputSampleRate}
         onReset={handleReset}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
+        onUndo={undo}
+        onRedo={redo}
       />
 
       {!audioData ? (
-        isLoading ? (
-          <div className="flex items-center justify-center py-16">
-            <p className="text-[0.85rem] text-(--foreground-muted)">
-              Decoding audio...
-            </p>
-          </div>
+        loadProgress ? (
+          <LoadProgress state={loadProgress} />
         ) : (
-          <AudioUpload onAudioSelected={handleAudioSelected} />
+          <>
+            <AudioUpload onAudioSelected={handleAudioSelected} />
+            <RecordControl onRecorded={(file) => handleAudioSelected([file])} />
+            <RecentSessions
+              sessions={recentSessions.sessions}
+              storage={recentSessions.storage}
+              onOpen={handleOpenSession}
+              onDelete={recentSessions.remove}
+            />
+          </>
         )
       ) : settings ? (
         <>
           <WaveformDisplay
             audioBuffer={audioData.buffer}
             settings={settings}
+            selection={selection}
+            clipRegions={clipRegions}
+            pauseRegions={pauses ?? []}
             playbackPosition={playbackPosition}
             onSeek={handleSeek}
+            onDragHandle={handleDragHandle}
+            onSelect={setSelection}
           />
           <PlaybackControls
             isPlaying={isPlaying}
             onPreview={handlePreview}
-            playbackPosition={playbackPosition}
-            duration={duration}
-            cropStart={settings.cropStart}
-            cropEnd={settings.cropEnd}
+            onStop={handleStop}
+            isLooping={isLooping}
+            onToggleLoop={() => setIsLooping(!isLooping)}
+            abRange={selection}
+            onClearAbRange={() => setSelection(null)}
+            currentTime={outputPosition}
+            outputDuration={outputDuration}
+          />
+          <ClipsControl
+            clips={audioData.clips}
+            isBusy={isUpdatingClips}
+            onAddFiles={handleAddClips}
+            onMove={handleMoveClip}
+            onRemove={handleRemoveClip}
+            onJoinChange={handleClipJoinChange}
+          />
+          <PresetControl
+            presets={presets.presets}
+            onSave={handleSavePreset}
+            onLoad={handleLoadPreset}
+            onDelete={(preset) => presets.remove(preset.name)}
+            onExport={handleExportPreset}
+            onImport={handleImportPreset}
           />
           <CropControls
             duration={duration}
             settings={settings}
             updateSetting={updateSetting}
           />
-          <VolumeControl settings={settings} updateSetting={updateSetting} />
+          <CutControls
+            settings={settings}
+            cursorTime={playbackPosition * duration}
+            updateSetting={updateSetting}
+          />
+          <SilenceControl
+            options={silenceOptions}
+            onOptionsChange={setSilenceOptions}
+            pauses={pauses}
+            isTrimming={isTrimmingSilence}
+            onTrim={handleTrimSilence}
+            onShortenPauses={handleShortenPauses}
+          />
+          <ReverseControl
+            settings={settings}
+            sourceChannels={audioData.buffer.numberOfChannels}
+            isProcessing={isProcessingSource}
+            updateSetting={updateSetting}
+          />
+          <NoiseReductionControl
+            settings={settings}
+            selection={selection}
+            isProcessing={isProcessingSource}
+            updateNoiseReduction={updateNoiseReduction}
+          />
+          <SpeedControl
+            settings={settings}
+            isProcessing={isProcessingSource}
+            updateSpeed={updateSpeed}
+          />
+          <VolumeControl
+            settings={settings}
+            normalizeGain={normalizeGain}
+            updateSetting={updateSetting}
+          />
+          <EqualizerControl
+            settings={settings}
+            sampleRate={audioData.buffer.sampleRate}
+            updateEq={updateEq}
+          />
+          <CompressorControl
+            settings={settings}
+            updateCompressor={updateCompressor}
+            isPlaying={isPlaying}
+            getGainReduction={getGainReduction}
+          />
+          <ChannelControl
+            settings={settings}
+            sourceChannels={audioData.buffer.numberOfChannels}
+            updateChannels={updateChannels}
+          />
+          <LoudnessControl
+            settings={settings}
+            measurement={loudness}
+            isMeasuring={isMeasuringLoudness}
+            isShown={isLoudnessShown}
+            onShownChange={setIsLoudnessShown}
+            normalizeGain={normalizeGain}
+            updateNormalize={updateNormalize}
+          />
+          <LimiterControl
+            settings={settings}
+            updateLimiter={updateLimiter}
+            clippedSamples={clipReport?.clippedSamples ?? null}
+            clipRegions={clipRegions}
+            isChecking={isCheckingClipping}
+            onCheck={handleCheckClipping}
+            onSeek={handleSeek}
+          />
           <FadeControl
             type="fadeIn"
             settings={settings}
             updateFade={updateFadeIn}
             toggle={() => updateFadeIn({ enabled: !settings.fadeIn.enabled })}
-            cropStart={settings.cropStart}
-            cropEnd={settings.cropEnd}
+            outputDuration={outputDuration}
           />
           <FadeControl
             type="fadeOut"
             settings={settings}
             updateFade={updateFadeOut}
             toggle={() => updateFadeOut({ enabled: !settings.fadeOut.enabled })}
-            cropStart={settings.cropStart}
-            cropEnd={settings.cropEnd}
+            outputDuration={outputDuration}
+          />
+          <BatchControl
+            items={batch.items}
+            isRunning={batch.isRunning}
+            crop={batchCrop}
+            format={batchFormat}
+            trimStart={settings.cropStart}
+            trimEnd={duration - settings.cropEnd}
+            onCropChange={setBatchCrop}
+            onFormatChange={setBatchFormat}
+            onAddFiles={batch.addFiles}
+            onClear={batch.clear}
+            onRun={handleRunBatch}
           />
         </>
       ) : null}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import {
+  type AudioEditSettings,
+  getEditedFileName,
+} from "../../utils/audioProcessing";
+import {
+  type BatchOptions,
+  getUniqueName,
+  processBatchFile,
+} from "../../utils/batch";
+import { downloadBlob } from "../../utils/download";
+import { createZip, type ZipEntry } from "../../utils/zip";
+
+export type BatchStatus =
+  | { state: "pending" }
+  | { state: "processing" }
+  | { state: "done"; name: string } // name inside the ZIP
+  | { state: "error"; message: string };
+
+export interface BatchItem {
+  file: File;
+  status: BatchStatus;
+}
+
+const ZIP_NAME = "batch-edited.zip";
+
+/**
+ * Queue of files to edit with one settings template. Files are processed
+ * one at a time, each failure is kept on its own item, and everything that
+ * worked is downloaded as a single ZIP.
+ */
+export function useBatchExport() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const setStatus = (index: number, status: BatchStatus) =>
+    setItems((prev) =>
+      prev.map((item, i) => (i === index ? { ...item, status } : item)),
+    );
+
+  const addFiles = (files: File[]) =>
+    setItems((prev) => [
+      ...prev,
+      ...files.map((file) => ({ file, status: { state: "pending" } as const })),
+    ]);
+
+  const clear = () => setItems([]);
+
+  const run = async (template: AudioEditSettings, options: BatchOptions) => {
+    setIsRunning(true);
+    setItems((prev) =>
+      prev.map((item) => ({ ...item, status: { state: "pending" } })),
+    );
+    const entries: ZipEntry[] = [];
+    const taken = new Set<string>();
+    try {
+      for (const [index, { file }] of items.entries()) {
+        setStatus(index, { state: "processing" });
+        try {
+          const { blob, extension } = await processBatchFile(
+            file,
+            template,
+            options,
+          );
+          const name = getUniqueName(getEditedFileName(file, extension), taken);
+          taken.add(name);
+          entries.push({ name, data: blob });
+          setStatus(index, { state: "done", name });
+        } catch (err) {
+          console.error(`Batch error (${file.name}):`, err);
+          setStatus(index, {
+            state: "error",
+            message: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+      if (entries.length > 0) {
+        downloadBlob(await createZip(entries), ZIP_NAME);
+      }
+    } catch (err) {
+      console.error("Batch ZIP error:", err);
+      alert("Failed to build the ZIP archive");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return { items, isRunning, addFiles, clear, run };
+}
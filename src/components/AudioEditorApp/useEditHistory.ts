@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+const MAX_HISTORY = 100;
+const MERGE_WINDOW_MS = 1000;
+
+interface HistoryEntry<T> {
+  state: T;
+  label: string; // describes the edit that produced this state
+}
+
+interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+  mergeKey: string | null;
+  mergeUntil: number;
+}
+
+export interface CommitOptions {
+  /**
+   * Consecutive commits with the same key, without a new pointer press in
+   * between, are grouped into a single history step (e.g. one slider drag).
+   */
+  mergeKey?: string;
+}
+
+/**
+ * Undo/redo stack around a piece of state. Every commit is labelled so the
+ * UI can show what an undo or redo will change.
+ */
+export function useEditHistory<T>(initialState: T) {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: { state: initialState, label: "" },
+    future: [],
+    mergeKey: null,
+    mergeUntil: 0,
+  }));
+
+  // A new pointer press always starts a new history step
+  useEffect(() => {
+    const closeGroup = () => {
+      setHistory((h) => (h.mergeKey === null ? h : { ...h, mergeKey: null }));
+    };
+    window.addEventListener("pointerdown", closeGroup, true);
+    return () => window.removeEventListener("pointerdown", closeGroup, true);
+  }, []);
+
+  const commit = (
+    update: (prev: T) => T,
+    label: string,
+    options: CommitOptions = {},
+  ) => {
+    const now = Date.now();
+    setHistory((h) => {
+      const state = update(h.present.state);
+      if (Object.is(state, h.present.state)) return h;
+
+      const mergeKey = options.mergeKey ?? null;
+      if (mergeKey !== null && mergeKey === h.mergeKey && now < h.mergeUntil) {
+        return {
+          ...h,
+          present: { state, label },
+          future: [],
+          mergeUntil: now + MERGE_WINDOW_MS,
+        };
+      }
+
+      return {
+        past: [...h.past, h.present].slice(-MAX_HISTORY),
+        present: { state, label },
+        future: [],
+        mergeKey,
+        mergeUntil: now + MERGE_WINDOW_MS,
+      };
+    });
+  };
+
+  const undo = () => {
+    setHistory((h) => {
+      const previous = h.past[h.past.length - 1];
+      if (!previous) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: previous,
+        future: [h.present, ...h.future],
+        mergeKey: null,
+        mergeUntil: 0,
+      };
+    });
+  };
+
+  const redo = () => {
+    setHistory((h) => {
+      const [next, ...rest] = h.future;
+      if (!next) return h;
+      return {
+        past: [...h.past, h.present],
+        present: next,
+        future: rest,
+        mergeKey: null,
+        mergeUntil: 0,
+      };
+    });
+  };
+
+  return {
+    state: history.present.state,
+    commit,
+    undo,
+    redo,
+    undoLabel: history.past.length > 0 ? history.present.label : null,
+    redoLabel: history.future[0]?.label ?? null,
+  };
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  type AudioEditSettings,
+  type ChannelRoute,
+  getChannelRouting,
+  getKeptRanges,
+  measureRangesLoudness,
+  type TimeRange,
+} from "../../utils/audioProcessing";
+import type { LoudnessMeasurement } from "../../utils/loudness";
+
+/**
+ * Wait for crop and cut drags to settle before measuring again
+ */
+const MEASURE_DELAY = 300; // ms
+
+/**
+ * Loudness of the kept audio (crop minus cuts) through the EQ, compressor
+ * and polarity flips in the output channel layout, re-measured in the
+ * worker whenever any of them changes. The last measurement stays
+ * available while a new one runs. Nothing is measured while `isActive` is
+ * off, since each measurement reads through the whole kept audio.
+ */
+export function useEditLoudness(
+  sourceBuffer: AudioBuffer | null,
+  settings: AudioEditSettings | null,
+  isActive: boolean,
+) {
+  const [result, setResult] = useState<{
+    buffer: AudioBuffer;
+    measureKey: string;
+    measurement: LoudnessMeasurement;
+  } | null>(null);
+
+  // Compared by value so unrelated setting changes don't re-measure
+  const measureKey =
+    sourceBuffer && settings && isActive
+      ? JSON.stringify({
+          ranges: getKeptRanges(settings),
+          routing: getChannelRouting(
+            settings.channels,
+            sourceBuffer.numberOfChannels,
+          ),
+          effects: {
+            eq: settings.eq,
+            compressor: settings.compressor,
+            invertPolarity: settings.invertPolarity,
+          },
+        })
+      : "";
+
+  useEffect(() => {
+    if (!sourceBuffer || !measureKey) return;
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      const {
+        ranges,
+        routing,
+        effects,
+      }: {
+        ranges: TimeRange[];
+        routing: ChannelRoute[];
+        effects: Pick<
+          AudioEditSettings,
+          "eq" | "compressor" | "invertPolarity"
+        >;
+      } = JSON.parse(measureKey);
+      try {
+        const measurement = await measureRangesLoudness(
+          sourceBuffer,
+          ranges,
+          routing,
+          effects,
+        );
+        if (!isCancelled) {
+          setResult({ buffer: sourceBuffer, measureKey, measurement });
+        }
+      } catch (err) {
+        console.error("Loudness measurement error:", err);
+      }
+    }, MEASURE_DELAY);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sourceBuffer, measureKey]);
+
+  const isCurrentBuffer = result?.buffer === sourceBuffer;
+  if (!measureKey) return { measurement: null, isMeasuring: false };
+  return {
+    measurement: isCurrentBuffer ? result.measurement : null,
+    isMeasuring: !isCurrentBuffer || result.measureKey !== measureKey,
+  };
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  loadStoredPresets,
+  type Preset,
+  storePresets,
+} from "../../utils/presets";
+
+/**
+ * Named presets kept in localStorage. They are read after mounting, since
+ * the server render has no storage.
+ */
+export function usePresets() {
+  const [presets, setPresets] = useState<Preset[]>([]);
+
+  useEffect(() => {
+    setPresets(loadStoredPresets());
+  }, []);
+
+  const update = (next: Preset[]) => {
+    setPresets(next);
+    try {
+      storePresets(next);
+    } catch (err) {
+      console.error("Preset storage error:", err);
+      alert("Failed to save presets in this browser");
+    }
+  };
+
+  /**
+   * Add a preset, replacing any with the same name
+   */
+  const save = (preset: Preset) =>
+    update(
+      [...presets.filter((p) => p.name !== preset.name), preset].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    );
+
+  const remove = (name: string) =>
+    update(presets.filter((preset) => preset.name !== name));
+
+  return { presets, save, remove };
+}
@@ -0,0 +1,318 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  type AudioEditSettings,
+  buildEditGraph,
+  type EditGraph,
+  getEditTimeline,
+  getOutputDuration,
+  MIN_EDIT_LENGTH,
+  outputTimeToSourceTime,
+  sourceTimeToOutputTime,
+  type TimelineSegment,
+  type TimeRange,
+  updateEditGraph,
+} from "../../utils/audioProcessing";
+
+/**
+ * Crossfade used when a running graph is replaced or stopped, and at each
+ * loop boundary, so edits made during preview don't click
+ */
+const SWAP_FADE_TIME = 0.01; // seconds
+
+interface ScheduledGraph {
+  graph: EditGraph;
+  master: GainNode;
+}
+
+interface ActivePlayback {
+  // The current pass, plus the next one while looping
+  graphs: ScheduledGraph[];
+  sourceBuffer: AudioBuffer;
+  settings: AudioEditSettings;
+  loopRange: TimeRange | null; // source seconds, as requested
+  loop: TimeRange | null; // output seconds
+  duration: number; // output seconds
+  startTime: number; // context time when `offset` was heard
+  offset: number; // output seconds
+  nextPassTime: number; // context time the next unscheduled loop pass starts
+}
+
+interface PreviewPlayerOptions {
+  sourceBuffer: AudioBuffer | null;
+  settings: AudioEditSettings | null;
+  loopRange: TimeRange | null; // source seconds to repeat, null to play once
+  onPositionChange: (sourceTime: number) => void;
+  onEnded: () => void;
+}
+
+function isSameRange(a: TimeRange | null, b: TimeRange | null): boolean {
+  return a === b || (!!a && !!b && a.start === b.start && a.end === b.end);
+}
+
+/**
+ * Output range a loop covers. Ranges that map to (almost) nothing, e.g.
+ * outside the crop, loop the whole edit instead.
+ */
+function getOutputLoop(
+  timeline: TimelineSegment[],
+  loopRange: TimeRange | null,
+): TimeRange | null {
+  if (!loopRange) return null;
+  const start = sourceTimeToOutputTime(timeline, loopRange.start);
+  const end = sourceTimeToOutputTime(timeline, loopRange.end);
+  if (end - start >= MIN_EDIT_LENGTH) return { start, end };
+  return { start: 0, end: getOutputDuration(timeline) };
+}
+
+/**
+ * Live preview of the edit chain on an AudioContext. Settings changes are
+ * heard immediately: parameters that can change in place are updated,
+ * anything else swaps in a rebuilt graph at the current position. While
+ * looping, the next pass is always scheduled ahead so repeats are gapless.
+ */
+export function usePreviewPlayer({
+  sourceBuffer,
+  settings,
+  loopRange,
+  onPositionChange,
+  onEnded,
+}: PreviewPlayerOptions) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const activeRef = useRef<ActivePlayback | null>(null);
+  const animFrameRef = useRef(0);
+  const callbacksRef = useRef({ onPositionChange, onEnded });
+
+  useEffect(() => {
+    callbacksRef.current = { onPositionChange, onEnded };
+  });
+
+  /**
+   * Output time being heard, wrapped back into the loop after each pass
+   */
+  const getOutputTime = (active: ActivePlayback, ctx: AudioContext) => {
+    const time =
+      active.offset + Math.max(0, ctx.currentTime - active.startTime);
+    const { loop } = active;
+    if (!loop || time < loop.end) return time;
+    return loop.start + ((time - loop.start) % (loop.end - loop.start));
+  };
+
+  const releasePlayback = (active: ActivePlayback, ctx: AudioContext) => {
+    const now = ctx.currentTime;
+    for (const { graph, master } of active.graphs) {
+      for (const source of graph.sources) source.onended = null;
+      master.gain.cancelScheduledValues(now);
+      master.gain.setValueAtTime(master.gain.value, now);
+      master.gain.setTargetAtTime(0, now, SWAP_FADE_TIME / 3);
+      for (const source of graph.sources) {
+        try {
+          source.stop(now + SWAP_FADE_TIME);
+        } catch {
+          // never started
+        }
+      }
+    }
+  };
+
+  const stop = () => {
+    const ctx = audioCtxRef.current;
+    if (activeRef.current && ctx) releasePlayback(activeRef.current, ctx);
+    activeRef.current = null;
+    if (animFrameRef.current) {
+      cancelAnimationFrame(animFrameRef.current);
+      animFrameRef.current = 0;
+    }
+    setIsPlaying(false);
+  };
+
+  /**
+   * Schedule one pass over the edit from `offset`, heard at `when`.
+   * Returns the context time the pass ends.
+   */
+  const schedulePass = (
+    ctx: AudioContext,
+    active: ActivePlayback,
+    when: number,
+    offset: number,
+  ): number => {
+    const end = active.loop?.end ?? active.duration;
+    const endTime = when + end - offset;
+    const graph = buildEditGraph(ctx, active.sourceBuffer, active.settings, {
+      when,
+      offset,
+      end,
+    });
+
+    const master = ctx.createGain();
+    master.gain.setValueAtTime(0, when);
+    master.gain.linearRampToValueAtTime(1, when + SWAP_FADE_TIME);
+    if (active.loop) {
+      master.gain.setValueAtTime(1, endTime - SWAP_FADE_TIME);
+      master.gain.linearRampToValueAtTime(0, endTime);
+    }
+    graph.output.connect(master);
+    master.connect(ctx.destination);
+
+    const scheduled = { graph, master };
+    active.graphs.push(scheduled);
+
+    const lastSource = graph.sources[graph.sources.length - 1];
+    if (lastSource) {
+      lastSource.onended = () => {
+        if (activeRef.current !== active) return;
+        active.graphs = active.graphs.filter((g) => g !== scheduled);
+        if (active.loop) {
+          // Keep one pass queued behind the one now playing
+          active.nextPassTime = schedulePass(
+            ctx,
+            active,
+            active.nextPassTime,
+            active.loop.start,
+          );
+          return;
+        }
+        stop();
+        callbacksRef.current.onEnded();
+      };
+    }
+    return endTime;
+  };
+
+  const startPlayback = (
+    ctx: AudioContext,
+    buffer: AudioBuffer,
+    playSettings: AudioEditSettings,
+    playLoopRange: TimeRange | null,
+    sourceTime: number,
+  ): ActivePlayback | null => {
+    const timeline = getEditTimeline(playSettings);
+    const duration = getOutputDuration(timeline);
+    const loop = getOutputLoop(timeline, playLoopRange);
+    let offset = sourceTimeToOutputTime(timeline, sourceTime);
+    if (loop && (offset < loop.start || offset >= loop.end)) {
+      offset = loop.start;
+    }
+    if (offset >= duration) return null;
+
+    const active: ActivePlayback = {
+      graphs: [],
+      sourceBuffer: buffer,
+      settings: playSettings,
+      loopRange: playLoopRange,
+      loop,
+      duration,
+      startTime: ctx.currentTime,
+      offset,
+      nextPassTime: 0,
+    };
+    const passEnd = schedulePass(ctx, active, active.startTime, offset);
+    if (loop) {
+      active.nextPassTime = schedulePass(ctx, active, passEnd, loop.start);
+    }
+    return active;
+  };
+
+  const trackPosition = () => {
+    const ctx = audioCtxRef.current;
+    const active = activeRef.current;
+    if (!ctx || !active) return;
+
+    const outputTime = Math.min(getOutputTime(active, ctx), active.duration);
+    callbacksRef.current.onPositionChange(
+      outputTimeToSourceTime(getEditTimeline(active.settings), outputTime),
+    );
+    animFrameRef.current = requestAnimationFrame(trackPosition);
+  };
+
+  /**
+   * Start playing the edit from a source position; positions outside the
+   * edit (or the loop) start from its beginning
+   */
+  const play = async (sourceTime: number) => {
+    if (!sourceBuffer || !settings) return;
+    stop();
+
+    if (!audioCtxRef.current || audioCtxRef.current.state === "closed") {
+      audioCtxRef.current = new AudioContext();
+    }
+    const ctx = audioCtxRef.current;
+    if (ctx.state === "suspended") {
+      await ctx.resume();
+    }
+
+    activeRef.current =
+      startPlayback(ctx, sourceBuffer, settings, loopRange, sourceTime) ??
+      startPlayback(ctx, sourceBuffer, settings, loopRange, 0);
+    if (!activeRef.current) return;
+
+    setIsPlaying(true);
+    animFrameRef.current = requestAnimationFrame(trackPosition);
+  };
+
+  // Hear setting, loop and source changes while playing
+  // biome-ignore lint/correctness/useExhaustiveDependencies: playback helpers only read refs and need not re-run the effect
+  useEffect(() => {
+    const ctx = audioCtxRef.current;
+    const active = activeRef.current;
+    if (!ctx || !active || !settings || !sourceBuffer) return;
+    // Processed copies of the source (noise reduced, time-stretched) swap in
+    // at the same spot; opening another file stops playback separately
+    const isSourceChanged = active.sourceBuffer !== sourceBuffer;
+    const isLoopChanged = !isSameRange(active.loopRange, loopRange);
+    if (active.settings === settings && !isLoopChanged && !isSourceChanged) {
+      return;
+    }
+
+    if (
+      !isLoopChanged &&
+      !isSourceChanged &&
+      active.graphs.every(({ graph }) =>
+        updateEditGraph(graph, active.settings, settings, ctx),
+      )
+    ) {
+      active.settings = settings;
+      return;
+    }
+
+    // Keep playing from the same spot in the source under the new edit
+    const sourceTime = outputTimeToSourceTime(
+      getEditTimeline(active.settings),
+      getOutputTime(active, ctx),
+    );
+    releasePlayback(active, ctx);
+    activeRef.current = startPlayback(
+      ctx,
+      sourceBuffer,
+      settings,
+      loopRange,
+      sourceTime,
+    );
+    if (!activeRef.current) {
+      stop();
+      callbacksRef.current.onEnded();
+    }
+  }, [settings, sourceBuffer, loopRange]);
+
+  /**
+   * Gain reduction the compressor is applying right now, in dB (0 or
+   * negative), or null when nothing is playing through a compressor
+   */
+  const getGainReduction = (): number | null => {
+    const compressor = activeRef.current?.graphs[0]?.graph.compressor;
+    return compressor ? compressor.reduction : null;
+  };
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      stop();
+      audioCtxRef.current?.close();
+    };
+    // biome-ignore lint/correctness/useExhaustiveDependencies: stop is stable since react compiler
+  }, [stop]);
+
+  return { isPlaying, play, stop, getGainReduction };
+}
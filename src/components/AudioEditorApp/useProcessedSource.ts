@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  type AudioEditSettings,
+  getSourceProcessing,
+  isTimeStretchActive,
+  prepareSource,
+  type SourceProcessing,
+} from "../../utils/audioProcessing";
+
+/**
+ * Wait for slider drags to settle before processing again
+ */
+const PROCESS_DELAY = 300; // ms
+
+/**
+ * `settings` with the fields a processed source depends on set to what
+ * `processing` made it with; null stands for the unprocessed source
+ */
+function matchSourceProcessing(
+  settings: AudioEditSettings,
+  processing: SourceProcessing | null,
+): AudioEditSettings {
+  const { speed, noiseReduction } = settings;
+  return {
+    ...settings,
+    ...(processing?.reverse && {
+      cropStart: processing.reverse.start,
+      cropEnd: processing.reverse.end,
+    }),
+    reverse: !!processing?.reverse,
+    noiseReduction: processing?.noiseReduction ?? {
+      ...noiseReduction,
+      enabled: false,
+    },
+    speed:
+      processing?.speed ??
+      (isTimeStretchActive(speed) ? { ...speed, rate: 1, pitch: 0 } : speed),
+  };
+}
+
+/**
+ * Source buffer with the edit's reverse, noise reduction and time
+ * stretching applied, reprocessed in the worker whenever those settings
+ * change. While a new buffer is made the last one stays, and `settings`
+ * comes back with its reverse, noise reduction and speed as that buffer
+ * was made, so the preview never plays it under settings it doesn't match.
+ */
+export function useProcessedSource(
+  sourceBuffer: AudioBuffer | null,
+  settings: AudioEditSettings | null,
+) {
+  const [result, setResult] = useState<{
+    source: AudioBuffer;
+    processKey: string;
+    processing: SourceProcessing | null;
+    buffer: AudioBuffer;
+  } | null>(null);
+
+  // Compared by value so unrelated setting changes don't reprocess
+  const processing = settings && getSourceProcessing(settings);
+  const processKey = processing ? JSON.stringify(processing) : "";
+
+  useEffect(() => {
+    if (!sourceBuffer || !processKey) return;
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      const processing: SourceProcessing | null = JSON.parse(processKey);
+      try {
+        const buffer = await prepareSource(sourceBuffer, processing);
+        if (!isCancelled) {
+          setResult({ source: sourceBuffer, processKey, processing, buffer });
+        }
+      } catch (err) {
+        console.error("Source processing error:", err);
+      }
+    }, PROCESS_DELAY);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sourceBuffer, processKey]);
+
+  if (!settings || !processKey) {
+    return { buffer: sourceBuffer, settings, isProcessing: false };
+  }
+  const isCurrentSource = result?.source === sourceBuffer;
+  if (isCurrentSource && result.processKey === processKey) {
+    return { buffer: result.buffer, settings, isProcessing: false };
+  }
+  return {
+    buffer: isCurrentSource ? result.buffer : sourceBuffer,
+    settings: matchSourceProcessing(
+      settings,
+      isCurrentSource ? result.processing : null,
+    ),
+    isProcessing: true,
+  };
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  deleteSession,
+  getStorageEstimate,
+  listSessions,
+  type SessionSummary,
+} from "../../utils/sessionStore";
+
+/**
+ * Saved sessions and storage use, re-read whenever the list is shown
+ */
+export function useRecentSessions(isShown: boolean) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [storage, setStorage] = useState<{
+    usage: number;
+    quota: number;
+  } | null>(null);
+
+  const refresh = async () => {
+    try {
+      const [list, estimate] = await Promise.all([
+        listSessions(),
+        getStorageEstimate(),
+      ]);
+      setSessions(list);
+      setStorage(estimate);
+    } catch (err) {
+      console.error("Session list error:", err);
+    }
+  };
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refresh only reads the store
+  useEffect(() => {
+    if (isShown) refresh();
+  }, [isShown]);
+
+  const remove = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.error("Session delete error:", err);
+      alert("Failed to delete the session");
+    }
+    await refresh();
+  };
+
+  return { sessions, storage, remove };
+}
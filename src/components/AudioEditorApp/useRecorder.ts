@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  getRecordingExtension,
+  pickOpusMimeType,
+} from "../../utils/audioProcessing";
+
+const CLICK_FREQUENCY = 1000; // Hz
+const CLICK_LENGTH = 0.05; // seconds
+
+export type RecorderStatus =
+  | { state: "idle" }
+  | { state: "starting" }
+  | { state: "countIn"; remaining: number } // whole seconds
+  | { state: "recording"; elapsed: number }; // seconds
+
+interface RecordingSession {
+  stream: MediaStream;
+  context: AudioContext;
+  analyser: AnalyserNode;
+  recorder: MediaRecorder | null;
+  timers: ReturnType<typeof setTimeout>[];
+  frame: number;
+  startedAt: number; // performance.now() when recording began
+}
+
+/**
+ * Peak level of the analyser's latest block, in dBFS
+ */
+function readPeak(analyser: AnalyserNode, samples: Float32Array<ArrayBuffer>) {
+  analyser.getFloatTimeDomainData(samples);
+  let peak = 0;
+  for (const sample of samples) peak = Math.max(peak, Math.abs(sample));
+  return peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+}
+
+/**
+ * A click on each count-in second, scheduled up front on the audio clock
+ */
+function scheduleClicks(context: AudioContext, count: number) {
+  for (let i = 0; i < count; i++) {
+    const at = context.currentTime + i;
+    const osc = context.createOscillator();
+    const gain = context.createGain();
+    osc.frequency.value = i === 0 ? CLICK_FREQUENCY * 1.5 : CLICK_FREQUENCY;
+    gain.gain.setValueAtTime(0.3, at);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + CLICK_LENGTH);
+    osc.connect(gain).connect(context.destination);
+    osc.start(at);
+    osc.stop(at + CLICK_LENGTH);
+  }
+}
+
+function getRecordingName(extension: string): string {
+  const stamp = new Date().toISOString().slice(0, 19).replace("T", " ");
+  return `Recording ${stamp.replaceAll(":", "-")}.${extension}`;
+}
+
+/**
+ * Record from a microphone into a File, with device choice, an optional
+ * clicked count-in and a live peak meter. Processing the browser applies
+ * to calls (echo cancellation, noise suppression, auto gain) is turned off
+ * so the take is as the microphone heard it.
+ */
+export function useRecorder(onRecorded: (file: File) => void) {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null); // null = default
+  const [status, setStatus] = useState<RecorderStatus>({ state: "idle" });
+  const [level, setLevel] = useState<number | null>(null);
+  // Only known in the browser, so settled after the first render
+  const [isSupported, setIsSupported] = useState(false);
+  const sessionRef = useRef<RecordingSession | null>(null);
+
+  // Labels are only filled in once the page has microphone access
+  const refreshDevices = async () => {
+    const all = await navigator.mediaDevices.enumerateDevices();
+    setDevices(all.filter((device) => device.kind === "audioinput"));
+  };
+
+  const release = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    for (const timer of session.timers) clearTimeout(timer);
+    cancelAnimationFrame(session.frame);
+    for (const track of session.stream.getTracks()) track.stop();
+    session.context.close();
+    setLevel(null);
+  };
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: device list and cleanup only touch refs and setters
+  useEffect(() => {
+    if (
+      !navigator.mediaDevices?.getUserMedia ||
+      typeof MediaRecorder === "undefined"
+    ) {
+      return;
+    }
+    setIsSupported(true);
+    refreshDevices();
+    navigator.mediaDevices.addEventListener("devicechange", refreshDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener(
+        "devicechange",
+        refreshDevices,
+      );
+      if (sessionRef.current?.recorder?.state === "recording") {
+        sessionRef.current.recorder.ondataavailable = null;
+        sessionRef.current.recorder.onstop = null;
+        sessionRef.current.recorder.stop();
+      }
+      release();
+    };
+  }, []);
+
+  const beginRecording = (session: RecordingSession) => {
+    const mimeType = pickOpusMimeType();
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(
+        session.stream,
+        mimeType ? { mimeType } : undefined,
+      );
+      // Handlers attached below still catch the first chunk, which
+      // arrives as a later event
+      recorder.start();
+    } catch (err) {
+      console.error("Recorder error:", err);
+      release();
+      setStatus({ state: "idle" });
+      alert("Failed to start recording");
+      return;
+    }
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      release();
+      setStatus({ state: "idle" });
+      const blob = new Blob(chunks, { type: recorder.mimeType || mimeType });
+      if (blob.size === 0) {
+        alert("Nothing was recorded");
+        return;
+      }
+      const extension = getRecordingExtension(blob);
+      onRecorded(
+        new File([blob], getRecordingName(extension), { type: blob.type }),
+      );
+    };
+    session.recorder = recorder;
+    session.startedAt = performance.now();
+    setStatus({ state: "recording", elapsed: 0 });
+  };
+
+  /**
+   * Open the chosen input and record, after `countIn` clicked seconds
+   */
+  const start = async (countIn: number) => {
+    if (sessionRef.current) return;
+    setStatus({ state: "starting" });
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: deviceId ? { exact: deviceId } : undefined,
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        },
+      });
+    } catch (err) {
+      console.error("Microphone error:", err);
+      setStatus({ state: "idle" });
+      alert(
+        err instanceof DOMException && err.name === "NotAllowedError"
+          ? "Microphone access was denied"
+          : "Failed to open the microphone",
+      );
+      return;
+    }
+    refreshDevices();
+
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const session: RecordingSession = {
+      stream,
+      context,
+      analyser,
+      recorder: null,
+      timers: [],
+      frame: 0,
+      startedAt: 0,
+    };
+    sessionRef.current = session;
+
+    const samples = new Float32Array(analyser.fftSize);
+    session.frame = requestAnimationFrame(function poll() {
+      setLevel(readPeak(analyser, samples));
+      if (session.recorder?.state === "recording") {
+        setStatus({
+          state: "recording",
+          elapsed: (performance.now() - session.startedAt) / 1000,
+        });
+      }
+      session.frame = requestAnimationFrame(poll);
+    });
+
+    if (countIn <= 0) {
+      beginRecording(session);
+      return;
+    }
+    scheduleClicks(context, countIn);
+    setStatus({ state: "countIn", remaining: countIn });
+    for (let i = 1; i <= countIn; i++) {
+      session.timers.push(
+        setTimeout(() => {
+          if (i < countIn) {
+            setStatus({ state: "countIn", remaining: countIn - i });
+          } else {
+            beginRecording(session);
+          }
+        }, i * 1000),
+      );
+    }
+  };
+
+  /**
+   * Finish the take, or abandon the count-in before it starts
+   */
+  const stop = () => {
+    const recorder = sessionRef.current?.recorder;
+    if (recorder?.state === "recording") {
+      recorder.stop(); // onstop releases and hands over the file
+    } else {
+      release();
+      setStatus({ state: "idle" });
+    }
+  };
+
+  return {
+    isSupported,
+    devices,
+    deviceId,
+    setDeviceId,
+    status,
+    level,
+    start,
+    stop,
+  };
+}
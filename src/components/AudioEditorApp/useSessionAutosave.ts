@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { AudioEditSettings } from "../../utils/audioProcessing";
+import type { Clip } from "../../utils/clips";
+import {
+  isQuotaError,
+  requestPersistentStorage,
+  saveSession,
+} from "../../utils/sessionStore";
+
+/**
+ * Wait for slider drags to settle before writing again
+ */
+const SAVE_DELAY = 1000; // ms
+
+export type SaveStatus =
+  | { state: "saving" }
+  | { state: "saved" }
+  | { state: "full" } // browser storage has no room left
+  | { state: "error"; message: string };
+
+interface SessionSource {
+  id: string;
+  file: File; // names the session
+  buffer: AudioBuffer;
+  clips: Clip[];
+}
+
+function isSameFiles(a: File[], b: File[]): boolean {
+  return a.length === b.length && a.every((file, i) => file === b[i]);
+}
+
+/**
+ * Save the open session to IndexedDB shortly after every change. Source
+ * files are only written again when the clips' files change.
+ */
+export function useSessionAutosave(
+  source: SessionSource | null,
+  settings: AudioEditSettings | null,
+) {
+  const [status, setStatus] = useState<SaveStatus | null>(null);
+  // Files last written for each session id
+  const savedFilesRef = useRef<{ id: string; files: File[] } | null>(null);
+
+  useEffect(() => {
+    if (!source || !settings) {
+      setStatus(null);
+      return;
+    }
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      const files = source.clips.map((clip) => clip.file);
+      const saved = savedFilesRef.current;
+      const withAudio =
+        saved?.id !== source.id || !isSameFiles(saved.files, files);
+      setStatus({ state: "saving" });
+      try {
+        if (!saved) await requestPersistentStorage();
+        await saveSession(
+          {
+            id: source.id,
+            name:
+              source.clips.length > 1
+                ? `${source.file.name} + ${source.clips.length - 1} more`
+                : source.file.name,
+            duration: source.buffer.duration,
+            settings,
+            clips: source.clips.map(({ file, join }) => ({ file, join })),
+          },
+          withAudio,
+        );
+        savedFilesRef.current = { id: source.id, files };
+        if (!isCancelled) setStatus({ state: "saved" });
+      } catch (err) {
+        console.error("Autosave error:", err);
+        if (!isCancelled) {
+          setStatus(
+            isQuotaError(err)
+              ? { state: "full" }
+              : {
+                  state: "error",
+                  message: err instanceof Error ? err.message : String(err),
+                },
+          );
+        }
+      }
+    }, SAVE_DELAY);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source, settings]);
+
+  return status;
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { detectSilence, type TimeRange } from "../../utils/audioProcessing";
+
+/**
+ * Wait for threshold and duration drags to settle before detecting again
+ */
+const DETECT_DELAY = 300; // ms
+
+/**
+ * Silent stretches of the whole buffer, found in the worker while
+ * `enabled`. Null until the first detection for these options finishes.
+ */
+export function useSilenceDetection(
+  sourceBuffer: AudioBuffer | null,
+  threshold: number,
+  minDuration: number,
+  enabled: boolean,
+): TimeRange[] | null {
+  const [result, setResult] = useState<{
+    buffer: AudioBuffer;
+    threshold: number;
+    minDuration: number;
+    regions: TimeRange[];
+  } | null>(null);
+
+  useEffect(() => {
+    if (!sourceBuffer || !enabled) return;
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const regions = await detectSilence(
+          sourceBuffer,
+          threshold,
+          minDuration,
+        );
+        if (!isCancelled) {
+          setResult({ buffer: sourceBuffer, threshold, minDuration, regions });
+        }
+      } catch (err) {
+        console.error("Silence detection error:", err);
+      }
+    }, DETECT_DELAY);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sourceBuffer, threshold, minDuration, enabled]);
+
+  const isCurrent =
+    enabled &&
+    result?.buffer === sourceBuffer &&
+    result.threshold === threshold &&
+    result.minDuration === minDuration;
+  return isCurrent ? result.regions : null;
+}
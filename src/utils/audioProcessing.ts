@@ -1,3 +1,9 @@
+import { copyChannels, runWorkerTask } from "./audioWorkerClient";
+import { type EqBand, getBiquadQ, getDefaultEqBands } from "./equalizer";
+import type { ClippingReport } from "./limiter";
+import { getLoudnessWeight, type LoudnessMeasurement } from "./loudness";
+import { DEFAULT_WAV_OPTIONS, type WavOptions } from "./wavEncoder";
+
 export type ExportFormat = "wav" | "opus";
 
 export const FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
@@ -7,10 +13,68 @@ export const FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
 
 export type EaseCurve = "linear" | "exponential" | "logarithmic" | "sCurve";
 
+/**
+ * How source channels become output channels: the source layout, a mono
+ * downmix, one extracted channel, L/R swapped, or one channel on both sides
+ */
+export type ChannelMode = "keep" | "mono" | "extract" | "swap" | "duplicate";
+
+/**
+ * How speed changes are made: resampling (pitch follows speed) or time
+ * stretching (speed and pitch set independently)
+ */
+export type SpeedMode = "resample" | "stretch";
+
+export interface TimeRange {
+  start: number; // seconds
+  end: number; // seconds
+}
+
 export interface AudioEditSettings {
   cropStart: number; // seconds
   cropEnd: number; // seconds
+  cuts: TimeRange[]; // removed regions inside the crop, source seconds
+  reverse: boolean; // the crop region plays backwards
   volume: number; // 0-2 multiplier
+  speed: {
+    mode: SpeedMode;
+    rate: number; // 1.25 plays 25% faster
+    pitch: number; // semitones, stretch mode only
+  };
+  eq: {
+    enabled: boolean;
+    bands: EqBand[];
+  };
+  compressor: {
+    enabled: boolean;
+    threshold: number; // dBFS
+    ratio: number; // input dB per output dB above the threshold
+    attack: number; // seconds
+    release: number; // seconds
+    knee: number; // dB
+    makeup: number; // dB of gain after compression
+  };
+  noiseReduction: {
+    enabled: boolean;
+    profile: TimeRange | null; // noise-only source range to learn from
+    strength: number; // 0-1
+    smoothing: number; // 0-1
+  };
+  channels: {
+    mode: ChannelMode;
+    channel: number; // source channel for extract and duplicate
+    balance: number; // -1 (left) to 1 (right), for stereo output
+  };
+  invertPolarity: boolean[]; // per source channel, missing ones are false
+  normalize: {
+    enabled: boolean; // replaces volume with the gain that hits the target
+    target: number; // integrated loudness, LUFS
+    ceiling: number; // highest true peak allowed, dBTP
+  };
+  limiter: {
+    enabled: boolean;
+    ceiling: number; // highest sample level after limiting, dBFS
+  };
   fadeIn: {
     enabled: boolean;
     duration: number; // seconds
@@ -27,7 +91,48 @@ export function getDefaultSettings(duration: number): AudioEditSettings {
   return {
     cropStart: 0,
     cropEnd: duration,
+    cuts: [],
+    reverse: false,
     volume: 1,
+    speed: {
+      mode: "stretch",
+      rate: 1,
+      pitch: 0,
+    },
+    eq: {
+      enabled: false,
+      bands: getDefaultEqBands(),
+    },
+    compressor: {
+      enabled: false,
+      threshold: -24,
+      ratio: 4,
+      attack: 0.003,
+      release: 0.25,
+      knee: 6,
+      makeup: 0,
+    },
+    noiseReduction: {
+      enabled: false,
+      profile: null,
+      strength: 0.8,
+      smoothing: 0.5,
+    },
+    channels: {
+      mode: "keep",
+      channel: 0,
+      balance: 0,
+    },
+    invertPolarity: [],
+    normalize: {
+      enabled: false,
+      target: -16,
+      ceiling: -1,
+    },
+    limiter: {
+      enabled: false,
+      ceiling: -1,
+    },
     fadeIn: {
       enabled: false,
       duration: Math.min(1, duration * 0.1),
@@ -41,6 +146,311 @@ export function getDefaultSettings(duration: number): AudioEditSettings {
   };
 }
 
+/**
+ * Shortest crop region and fade, matching the slider step
+ */
+export const MIN_EDIT_LENGTH = 0.01;
+
+/**
+ * Shortest selection accepted as a noise profile
+ */
+export const MIN_NOISE_PROFILE = 0.1; // seconds
+
+/**
+ * Longest fade the controls allow
+ */
+export const MAX_FADE_DURATION = 10;
+
+/**
+ * Range and slider step of a numeric setting. Presets clamp to the same
+ * ranges the controls allow.
+ */
+export interface SettingRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const VOLUME_RANGE: SettingRange = { min: 0, max: 2, step: 0.01 };
+
+export const SPEED_RATE_RANGE: SettingRange = { min: 0.5, max: 2, step: 0.01 };
+
+export const PITCH_RANGE: SettingRange = { min: -12, max: 12, step: 0.1 }; // semitones
+
+export const COMPRESSOR_RANGES: Record<
+  Exclude<keyof AudioEditSettings["compressor"], "enabled">,
+  SettingRange
+> = {
+  threshold: { min: -60, max: 0, step: 0.5 }, // dB
+  ratio: { min: 1, max: 20, step: 0.1 },
+  attack: { min: 0, max: 0.2, step: 0.001 }, // seconds
+  release: { min: 0.01, max: 1, step: 0.01 }, // seconds
+  knee: { min: 0, max: 40, step: 1 }, // dB
+  makeup: { min: 0, max: 24, step: 0.5 }, // dB
+};
+
+export const NOISE_REDUCTION_RANGE: SettingRange = {
+  min: 0,
+  max: 1,
+  step: 0.01,
+};
+
+export const BALANCE_RANGE: SettingRange = { min: -1, max: 1, step: 0.01 };
+
+export const LIMITER_CEILING_RANGE: SettingRange = {
+  min: -12, // dBFS
+  max: 0,
+  step: 0.1,
+};
+
+/**
+ * Normalize targets and true-peak ceilings offered; the settings only take
+ * these values
+ */
+export const LOUDNESS_TARGETS: { value: number; label: string }[] = [
+  { value: -14, label: "Streaming (-14 LUFS)" },
+  { value: -16, label: "Podcast (-16 LUFS)" },
+  { value: -23, label: "Broadcast (-23 LUFS)" },
+];
+
+export const TRUE_PEAK_CEILINGS = [-0.1, -1, -2, -3]; // dBTP
+
+/**
+ * Move the crop start, keeping it before the crop end
+ */
+export function clampCropStart(time: number, settings: AudioEditSettings) {
+  return Math.max(0, Math.min(time, settings.cropEnd - MIN_EDIT_LENGTH));
+}
+
+/**
+ * Move the crop end, keeping it after the crop start
+ */
+export function clampCropEnd(
+  time: number,
+  settings: AudioEditSettings,
+  duration: number,
+) {
+  return Math.min(
+    duration,
+    Math.max(time, settings.cropStart + MIN_EDIT_LENGTH),
+  );
+}
+
+/**
+ * Keep a fade within the rendered output
+ */
+export function clampFadeDuration(duration: number, outputDuration: number) {
+  return Math.max(
+    MIN_EDIT_LENGTH,
+    Math.min(duration, MAX_FADE_DURATION, outputDuration),
+  );
+}
+
+/**
+ * Audio left on either side of speech when trimming or shortening silence
+ */
+export const SILENCE_PADDING = 0.05; // seconds
+
+/**
+ * Crop that drops the leading and trailing silence, or null when the
+ * audio is silent throughout
+ */
+export function getSilenceTrim(
+  silence: TimeRange[],
+  duration: number,
+): TimeRange | null {
+  const leading = silence.find((region) => region.start <= 0);
+  const trailing = silence.find((region) => region.end >= duration);
+  if (leading && leading.end >= duration) return null;
+  return {
+    start: leading ? Math.max(0, leading.end - SILENCE_PADDING) : 0,
+    end: trailing
+      ? Math.min(duration, trailing.start + SILENCE_PADDING)
+      : duration,
+  };
+}
+
+/**
+ * Where a range inside the crop ends up once the crop region is reversed
+ */
+function mirrorInCrop(range: TimeRange, settings: AudioEditSettings) {
+  const pivot = settings.cropStart + settings.cropEnd;
+  return { start: pivot - range.end, end: pivot - range.start };
+}
+
+/**
+ * Silent stretches fully inside the crop, i.e. pauses rather than dead air
+ * at either end, where they sit after any reverse. Pauses an existing cut
+ * already touches are left out.
+ */
+export function getInternalPauses(
+  silence: TimeRange[],
+  settings: AudioEditSettings,
+): TimeRange[] {
+  return silence
+    .filter(
+      (region) =>
+        region.start > settings.cropStart && region.end < settings.cropEnd,
+    )
+    .map((region) =>
+      settings.reverse ? mirrorInCrop(region, settings) : region,
+    )
+    .filter(
+      (region) =>
+        !settings.cuts.some(
+          (cut) => cut.start < region.end && cut.end > region.start,
+        ),
+    )
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Cuts that shorten every pause longer than `maxPause` to that length,
+ * keeping equal silence on both sides
+ */
+export function getPauseCuts(
+  pauses: TimeRange[],
+  maxPause: number,
+): TimeRange[] {
+  return pauses
+    .filter((pause) => pause.end - pause.start > maxPause)
+    .map((pause) => ({
+      start: pause.start + maxPause / 2,
+      end: pause.end - maxPause / 2,
+    }));
+}
+
+/**
+ * Length of the automatic crossfade applied where two kept segments meet
+ */
+export const CUT_CROSSFADE_DURATION = 0.01;
+
+/**
+ * A kept stretch of the source, placed on the output timeline
+ */
+export interface TimelineSegment {
+  sourceStart: number; // seconds
+  sourceEnd: number; // seconds
+  outputStart: number; // seconds
+  rate: number; // source seconds per output second
+  crossfadeIn: number; // output seconds of overlap with the previous segment
+  crossfadeOut: number; // output seconds of overlap with the next segment
+}
+
+/**
+ * Output seconds a segment lasts, crossfades included
+ */
+function getSegmentLength(segment: TimelineSegment): number {
+  return (segment.sourceEnd - segment.sourceStart) / segment.rate;
+}
+
+/**
+ * Resolve the crop window and cuts into the source ranges that are kept
+ */
+export function getKeptRanges(settings: AudioEditSettings): TimeRange[] {
+  const { cropStart, cropEnd } = settings;
+  const cuts = settings.cuts
+    .map((cut) => ({
+      start: Math.max(cropStart, Math.min(cut.start, cut.end)),
+      end: Math.min(cropEnd, Math.max(cut.start, cut.end)),
+    }))
+    .filter((cut) => cut.end > cut.start)
+    .sort((a, b) => a.start - b.start);
+
+  const kept: TimeRange[] = [];
+  let cursor = cropStart;
+  for (const cut of cuts) {
+    if (cut.start > cursor) kept.push({ start: cursor, end: cut.start });
+    cursor = Math.max(cursor, cut.end);
+  }
+  if (cropEnd > cursor) kept.push({ start: cursor, end: cropEnd });
+  return kept;
+}
+
+/**
+ * Lay the kept ranges end to end, overlapping neighbours by a short crossfade
+ */
+export function getEditTimeline(
+  settings: AudioEditSettings,
+): TimelineSegment[] {
+  const kept = getKeptRanges(settings);
+  const { rate } = settings.speed;
+  const segments: TimelineSegment[] = [];
+  let outputStart = 0;
+
+  for (let i = 0; i < kept.length; i++) {
+    const length = (kept[i].end - kept[i].start) / rate;
+    const next = kept[i + 1];
+    const crossfadeIn = i > 0 ? segments[i - 1].crossfadeOut : 0;
+    const crossfadeOut = next
+      ? Math.min(
+          CUT_CROSSFADE_DURATION,
+          length / 2,
+          (next.end - next.start) / rate / 2,
+        )
+      : 0;
+
+    segments.push({
+      sourceStart: kept[i].start,
+      sourceEnd: kept[i].end,
+      outputStart,
+      rate,
+      crossfadeIn,
+      crossfadeOut,
+    });
+    outputStart += length - crossfadeOut;
+  }
+
+  return segments;
+}
+
+/**
+ * Duration of the rendered output in seconds
+ */
+export function getOutputDuration(timeline: TimelineSegment[]): number {
+  const last = timeline[timeline.length - 1];
+  return last ? last.outputStart + getSegmentLength(last) : 0;
+}
+
+/**
+ * Map a position on the output timeline back to the source
+ */
+export function outputTimeToSourceTime(
+  timeline: TimelineSegment[],
+  time: number,
+): number {
+  if (timeline.length === 0) return 0;
+  for (const segment of timeline) {
+    const length = getSegmentLength(segment);
+    if (time < segment.outputStart + length - segment.crossfadeOut) {
+      return (
+        segment.sourceStart +
+        Math.max(0, time - segment.outputStart) * segment.rate
+      );
+    }
+  }
+  return timeline[timeline.length - 1].sourceEnd;
+}
+
+/**
+ * Map a source position onto the output timeline. Positions inside a cut
+ * snap to the join that replaced it.
+ */
+export function sourceTimeToOutputTime(
+  timeline: TimelineSegment[],
+  time: number,
+): number {
+  for (const segment of timeline) {
+    if (time < segment.sourceEnd) {
+      return (
+        segment.outputStart +
+        Math.max(0, time - segment.sourceStart) / segment.rate
+      );
+    }
+  }
+  return getOutputDuration(timeline);
+}
+
 /**
  * Apply an ease curve to a linear 0→1 progress value
  */
@@ -58,19 +468,701 @@ function applyEaseCurve(t: number, curve: EaseCurve): number {
 }
 
 /**
- * Process audio using OfflineAudioContext: crop, volume, fade in/out
+ * Floor of the exponential fade, which can't reach 0
  */
-export async function processAudio(
+const EXPONENTIAL_FADE_FLOOR = 0.001;
+
+/**
+ * Gain of a fade at `t` (0→1 through the fade). Exponential fades follow
+ * the shape of exponentialRampToValueAtTime between the floor and 1.
+ */
+function fadeGainAt(t: number, curve: EaseCurve, fadeIn: boolean): number {
+  if (curve === "exponential") {
+    const from = fadeIn ? EXPONENTIAL_FADE_FLOOR : 1;
+    const to = fadeIn ? 1 : EXPONENTIAL_FADE_FLOOR;
+    return from * (to / from) ** t;
+  }
+  return applyEaseCurve(fadeIn ? t : 1 - t, curve);
+}
+
+/**
+ * Points sampled per automation curve
+ */
+const CURVE_STEPS = 256;
+
+/**
+ * Schedule `shape` (a function of output time) on a param for the output
+ * range [from, to]. Playback that starts at output time `offset` (heard at
+ * context time `when`) skips the part of the curve already behind it.
+ */
+function scheduleCurve(
+  param: AudioParam,
+  shape: (outputTime: number) => number,
+  from: number,
+  to: number,
+  when: number,
+  offset: number,
+) {
+  if (to <= offset) {
+    param.setValueAtTime(shape(to), when);
+    return;
+  }
+  const start = Math.max(from, offset);
+  const values = new Float32Array(CURVE_STEPS);
+  for (let i = 0; i < CURVE_STEPS; i++) {
+    values[i] = shape(start + ((to - start) * i) / (CURVE_STEPS - 1));
+  }
+  param.setValueCurveAtTime(values, when + start - offset, to - start);
+}
+
+/**
+ * Where one output channel comes from: a source channel or the average of
+ * all of them, at a gain set by the balance
+ */
+export interface ChannelRoute {
+  source: number | "mix";
+  gain: number;
+}
+
+/**
+ * Left and right gains for a balance setting. The louder side stays at
+ * unity so centered audio is unchanged.
+ */
+function getBalanceGains(balance: number): [number, number] {
+  return [Math.min(1, 1 - balance), Math.min(1, 1 + balance)];
+}
+
+/**
+ * Resolve the channel settings into one route per output channel
+ */
+export function getChannelRouting(
+  channels: AudioEditSettings["channels"],
+  sourceChannels: number,
+): ChannelRoute[] {
+  const channel = Math.min(channels.channel, sourceChannels - 1);
+  const all = Array.from({ length: sourceChannels }, (_, ch) => ch);
+  let sources: ChannelRoute["source"][];
+  switch (channels.mode) {
+    case "mono":
+      sources = [sourceChannels > 1 ? "mix" : 0];
+      break;
+    case "extract":
+      sources = [channel];
+      break;
+    case "swap":
+      sources = sourceChannels > 1 ? [1, 0, ...all.slice(2)] : all;
+      break;
+    case "duplicate":
+      sources = [channel, channel];
+      break;
+    default:
+      sources = all;
+  }
+
+  const balanceGains = getBalanceGains(channels.balance);
+  return sources.map((source, ch) => ({
+    source,
+    gain: sources.length === 2 ? balanceGains[ch] : 1,
+  }));
+}
+
+/**
+ * Gain of a route's node; a mix sums every source channel, so it's scaled
+ * down to their average
+ */
+function getRouteGain(route: ChannelRoute, sourceChannels: number): number {
+  return route.source === "mix" ? route.gain / sourceChannels : route.gain;
+}
+
+/**
+ * Gain that applies a source channel's polarity setting
+ */
+function getPolarityGain(
+  invertPolarity: AudioEditSettings["invertPolarity"],
+  ch: number,
+): number {
+  return invertPolarity[ch] ? -1 : 1;
+}
+
+function isSameRouting(a: ChannelRoute[], b: ChannelRoute[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((route, ch) => route.source === b[ch].source)
+  );
+}
+
+/**
+ * The edit chain built on an audio context
+ */
+export interface EditGraph {
+  output: AudioNode;
+  sources: AudioBufferSourceNode[];
+  volumeGain: GainNode;
+  eqFilters: BiquadFilterNode[]; // one per band
+  compressor: DynamicsCompressorNode | null; // only while enabled
+  makeupGain: GainNode;
+  sourceChannels: number;
+  polarityGains: GainNode[]; // one per source channel
+  routing: ChannelRoute[];
+  routeGains: GainNode[]; // one per output channel
+  duration: number; // seconds of output, from the start of the edit
+}
+
+export interface EditGraphTiming {
+  when?: number; // context time at which playback starts
+  offset?: number; // output time heard at `when`
+  end?: number; // output time at which playback stops, defaults to the end
+}
+
+/**
+ * Tone shaping between the kept segments and the fades: EQ bands in
+ * series, then the compressor and its makeup gain
+ */
+interface ToneChain {
+  input: AudioNode;
+  output: AudioNode;
+  eqFilters: BiquadFilterNode[];
+  compressor: DynamicsCompressorNode | null;
+  makeupGain: GainNode;
+}
+
+function buildToneChain(
+  ctx: BaseAudioContext,
+  { eq, compressor }: Pick<AudioEditSettings, "eq" | "compressor">,
+): ToneChain {
+  // Bands that are off pass audio through, so they can change in place
+  const eqFilters = eq.bands.map((band) => {
+    const filter = ctx.createBiquadFilter();
+    setEqFilter(filter, eq.enabled && band.enabled ? band : null);
+    return filter;
+  });
+  // A compressor is never fully transparent, so it is left out when off
+  let compressorNode: DynamicsCompressorNode | null = null;
+  if (compressor.enabled) {
+    compressorNode = ctx.createDynamicsCompressor();
+    setCompressor(compressorNode, compressor);
+  }
+  const makeupGain = ctx.createGain();
+  makeupGain.gain.value = getMakeupGain(compressor);
+
+  const nodes: AudioNode[] = [
+    ...eqFilters,
+    ...(compressorNode ? [compressorNode] : []),
+    makeupGain,
+  ];
+  for (let i = 1; i < nodes.length; i++) nodes[i - 1].connect(nodes[i]);
+  return {
+    input: nodes[0],
+    output: makeupGain,
+    eqFilters,
+    compressor: compressorNode,
+    makeupGain,
+  };
+}
+
+/**
+ * Build the edit chain (kept segments → join crossfades → EQ → compressor
+ * → fade in → fade out → volume → polarity → channel routing) on any audio
+ * context. The offline export and the live preview both use this, so they
+ * always sound the same.
+ */
+export function buildEditGraph(
+  ctx: BaseAudioContext,
   sourceBuffer: AudioBuffer,
   settings: AudioEditSettings,
+  { when = 0, offset = 0, end }: EditGraphTiming = {},
+): EditGraph {
+  const { volume, fadeIn, fadeOut } = settings;
+  const timeline = getEditTimeline(settings);
+  const duration = getOutputDuration(timeline);
+  const stopAt = Math.min(end ?? duration, duration);
+
+  const fadeInGain = ctx.createGain();
+  if (fadeIn.enabled && fadeIn.duration > 0) {
+    const fadeDuration = Math.min(fadeIn.duration, duration);
+    scheduleCurve(
+      fadeInGain.gain,
+      (t) => fadeGainAt(t / fadeDuration, fadeIn.curve, true),
+      0,
+      fadeDuration,
+      when,
+      offset,
+    );
+  }
+
+  const fadeOutGain = ctx.createGain();
+  if (fadeOut.enabled && fadeOut.duration > 0) {
+    const fadeDuration = Math.min(fadeOut.duration, duration);
+    const fadeOutStart = duration - fadeDuration;
+    scheduleCurve(
+      fadeOutGain.gain,
+      (t) =>
+        fadeGainAt((t - fadeOutStart) / fadeDuration, fadeOut.curve, false),
+      fadeOutStart,
+      duration,
+      when,
+      offset,
+    );
+  }
+
+  // Create gain node for volume
+  const volumeGain = ctx.createGain();
+  volumeGain.gain.value = volume;
+
+  const tone = buildToneChain(ctx, settings);
+  tone.output.connect(fadeInGain);
+  fadeInGain.connect(fadeOutGain);
+  fadeOutGain.connect(volumeGain);
+
+  // Time-stretched sources already run at the edit's speed; anything else
+  // is resampled to it through the playback rate
+  const sourceTimeScale = getSourceTimeScale(sourceBuffer);
+
+  // One buffer source per kept segment, crossfaded into its neighbours
+  const sources: AudioBufferSourceNode[] = [];
+  for (const segment of timeline) {
+    const segmentEnd = segment.outputStart + getSegmentLength(segment);
+    if (segmentEnd <= offset || segment.outputStart >= stopAt) continue;
+
+    const source = ctx.createBufferSource();
+    source.buffer = sourceBuffer;
+    const playbackRate = segment.rate / sourceTimeScale;
+    source.playbackRate.value = playbackRate;
+
+    const joinGain = ctx.createGain();
+    if (segment.crossfadeIn > 0) {
+      const fadeEnd = segment.outputStart + segment.crossfadeIn;
+      scheduleCurve(
+        joinGain.gain,
+        (t) =>
+          Math.sin(
+            ((t - segment.outputStart) / segment.crossfadeIn) * (Math.PI / 2),
+          ),
+        segment.outputStart,
+        fadeEnd,
+        when,
+        offset,
+      );
+    }
+    if (segment.crossfadeOut > 0) {
+      const fadeStart = segmentEnd - segment.crossfadeOut;
+      scheduleCurve(
+        joinGain.gain,
+        (t) =>
+          Math.cos(((t - fadeStart) / segment.crossfadeOut) * (Math.PI / 2)),
+        fadeStart,
+        segmentEnd,
+        when,
+        offset,
+      );
+    }
+
+    source.connect(joinGain);
+    joinGain.connect(tone.input);
+
+    // Offset and duration count buffer seconds, output seconds don't
+    const skipped = Math.max(0, offset - segment.outputStart);
+    source.start(
+      when + Math.max(0, segment.outputStart - offset),
+      segment.sourceStart / sourceTimeScale + skipped * playbackRate,
+      (Math.min(segmentEnd, stopAt) - segment.outputStart - skipped) *
+        playbackRate,
+    );
+    sources.push(source);
+  }
+
+  // Route source channels to the output layout
+  const sourceChannels = sourceBuffer.numberOfChannels;
+  const routing = getChannelRouting(settings.channels, sourceChannels);
+  const splitter = ctx.createChannelSplitter(sourceChannels);
+  const merger = ctx.createChannelMerger(routing.length);
+  volumeGain.connect(splitter);
+  const polarityGains = Array.from({ length: sourceChannels }, (_, ch) => {
+    const polarityGain = ctx.createGain();
+    polarityGain.gain.value = getPolarityGain(settings.invertPolarity, ch);
+    splitter.connect(polarityGain, ch);
+    return polarityGain;
+  });
+  const routeGains = routing.map((route, ch) => {
+    const routeGain = ctx.createGain();
+    routeGain.gain.value = getRouteGain(route, sourceChannels);
+    const inputs =
+      route.source === "mix"
+        ? Array.from({ length: sourceChannels }, (_, input) => input)
+        : [route.source];
+    for (const input of inputs) polarityGains[input].connect(routeGain);
+    routeGain.connect(merger, 0, ch);
+    return routeGain;
+  });
+
+  return {
+    output: merger,
+    sources,
+    volumeGain,
+    eqFilters: tone.eqFilters,
+    compressor: tone.compressor,
+    makeupGain: tone.makeupGain,
+    sourceChannels,
+    polarityGains,
+    routing,
+    routeGains,
+    duration,
+  };
+}
+
+/**
+ * Point a filter at an EQ band, or at a 0 dB peak (which passes audio
+ * through unchanged) when the band is off. Parameters glide to their new
+ * values when a running context is given.
+ */
+function setEqFilter(
+  filter: BiquadFilterNode,
+  band: EqBand | null,
+  ctx?: BaseAudioContext,
+) {
+  filter.type = band?.type ?? "peaking";
+  const values: [AudioParam, number][] = [
+    [filter.frequency, band?.frequency ?? 1000],
+    [filter.gain, band?.gain ?? 0],
+    [filter.Q, band ? getBiquadQ(band) : 1],
+  ];
+  for (const [param, value] of values) setParam(param, value, ctx);
+}
+
+/**
+ * Set a parameter outright, or glide to it on a running context
+ */
+function setParam(param: AudioParam, value: number, ctx?: BaseAudioContext) {
+  if (ctx) param.setTargetAtTime(value, ctx.currentTime, 0.01);
+  else param.value = value;
+}
+
+function setCompressor(
+  node: DynamicsCompressorNode,
+  compressor: AudioEditSettings["compressor"],
+  ctx?: BaseAudioContext,
+) {
+  setParam(node.threshold, compressor.threshold, ctx);
+  setParam(node.ratio, compressor.ratio, ctx);
+  setParam(node.attack, compressor.attack, ctx);
+  setParam(node.release, compressor.release, ctx);
+  setParam(node.knee, compressor.knee, ctx);
+}
+
+function getMakeupGain(compressor: AudioEditSettings["compressor"]): number {
+  return compressor.enabled ? 10 ** (compressor.makeup / 20) : 1;
+}
+
+/**
+ * Apply a settings change to a running graph without rebuilding it.
+ * Returns false when the change needs a new graph (e.g. crop or fades).
+ */
+export function updateEditGraph(
+  graph: EditGraph,
+  previous: AudioEditSettings,
+  next: AudioEditSettings,
+  ctx: BaseAudioContext,
+): boolean {
+  const changed = (Object.keys(next) as (keyof AudioEditSettings)[]).filter(
+    (key) => previous[key] !== next[key],
+  );
+  // Normalization only reaches the graph through the volume it sets, noise
+  // reduction through the source buffer, and the limiter only runs on export
+  const inPlaceKeys: (keyof AudioEditSettings)[] = [
+    "volume",
+    "eq",
+    "compressor",
+    "noiseReduction",
+    "channels",
+    "invertPolarity",
+    "normalize",
+    "limiter",
+  ];
+  if (changed.some((key) => !inPlaceKeys.includes(key))) {
+    return false;
+  }
+
+  // Balance changes in place; a different layout needs new routing
+  const routing = getChannelRouting(next.channels, graph.sourceChannels);
+  if (!isSameRouting(routing, graph.routing)) return false;
+  if (next.eq.bands.length !== graph.eqFilters.length) return false;
+  if (next.compressor.enabled !== previous.compressor.enabled) return false;
+
+  next.eq.bands.forEach((band, i) => {
+    setEqFilter(
+      graph.eqFilters[i],
+      next.eq.enabled && band.enabled ? band : null,
+      ctx,
+    );
+  });
+
+  if (graph.compressor) setCompressor(graph.compressor, next.compressor, ctx);
+  setParam(graph.makeupGain.gain, getMakeupGain(next.compressor), ctx);
+
+  graph.polarityGains.forEach((polarityGain, ch) => {
+    setParam(polarityGain.gain, getPolarityGain(next.invertPolarity, ch), ctx);
+  });
+  routing.forEach((route, ch) => {
+    graph.routeGains[ch].gain.setTargetAtTime(
+      getRouteGain(route, graph.sourceChannels),
+      ctx.currentTime,
+      0.01,
+    );
+  });
+  graph.routing = routing;
+  graph.volumeGain.gain.setTargetAtTime(next.volume, ctx.currentTime, 0.01);
+  return true;
+}
+
+/**
+ * Play the given sample ranges back to back through the EQ and compressor
+ * on an offline context. Null when neither is on, so the source can be
+ * measured as it is.
+ */
+async function renderRangesTone(
+  sourceBuffer: AudioBuffer,
+  ranges: { start: number; end: number }[], // samples
+  tone: Pick<AudioEditSettings, "eq" | "compressor">,
+): Promise<AudioBuffer | null> {
+  const { sampleRate, numberOfChannels } = sourceBuffer;
+  const length = ranges.reduce(
+    (sum, range) => sum + range.end - range.start,
+    0,
+  );
+  const isShaped =
+    (tone.eq.enabled && tone.eq.bands.some((band) => band.enabled)) ||
+    tone.compressor.enabled;
+  if (!isShaped || length === 0) return null;
+
+  const ctx = new OfflineAudioContext(numberOfChannels, length, sampleRate);
+  const chain = buildToneChain(ctx, tone);
+  chain.output.connect(ctx.destination);
+  let offset = 0;
+  for (const range of ranges) {
+    const source = ctx.createBufferSource();
+    source.buffer = sourceBuffer;
+    source.connect(chain.input);
+    source.start(
+      offset / sampleRate,
+      range.start / sampleRate,
+      (range.end - range.start) / sampleRate,
+    );
+    offset += range.end - range.start;
+  }
+  return ctx.startRendering();
+}
+
+/**
+ * Measure integrated loudness and true peak of the given source ranges,
+ * played back to back (e.g. the kept ranges of an edit) through the EQ
+ * and compressor, with polarity flips, in the output channel layout. Only
+ * the EQ and compressor render here; joining, flipping and mixing run on
+ * the worker with the measurement.
+ */
+export async function measureRangesLoudness(
+  sourceBuffer: AudioBuffer,
+  ranges: TimeRange[],
+  routing: ChannelRoute[],
+  effects: Pick<AudioEditSettings, "eq" | "compressor" | "invertPolarity">,
+  onProgress?: (progress: number) => void,
+): Promise<LoudnessMeasurement> {
+  const { sampleRate, numberOfChannels } = sourceBuffer;
+  const samplesPerSecond = sampleRate / getSourceTimeScale(sourceBuffer);
+  const sampleRanges = ranges.map((range) => ({
+    start: Math.round(range.start * samplesPerSecond),
+    end: Math.round(range.end * samplesPerSecond),
+  }));
+  const toned = await renderRangesTone(sourceBuffer, sampleRanges, effects);
+
+  return runWorkerTask(
+    "loudness",
+    {
+      channels: copyChannels(toned ?? sourceBuffer),
+      sampleRate,
+      // A rendered buffer already holds just the ranges, joined
+      ranges: toned ? [{ start: 0, end: toned.length }] : sampleRanges,
+      invert: Array.from(
+        { length: numberOfChannels },
+        (_, ch) => !!effects.invertPolarity[ch],
+      ),
+      routing,
+      weights: getChannelLabels(routing.length).map(getLoudnessWeight),
+    },
+    onProgress,
+  );
+}
+
+/**
+ * Gain that brings measured audio to the normalize target, lowered when
+ * needed so its true peak stays under the ceiling. Silence is left as is.
+ */
+export function getNormalizeGain(
+  measurement: LoudnessMeasurement,
+  normalize: AudioEditSettings["normalize"],
+): number {
+  if (!Number.isFinite(measurement.integrated)) return 1;
+  const gainDb = Math.min(
+    normalize.target - measurement.integrated,
+    normalize.ceiling - measurement.truePeak,
+  );
+  return 10 ** (gainDb / 20);
+}
+
+/**
+ * Whether noise reduction is on and has a profile to work from
+ */
+export function isNoiseReductionActive(
+  noiseReduction: AudioEditSettings["noiseReduction"],
+): noiseReduction is AudioEditSettings["noiseReduction"] & {
+  profile: TimeRange;
+} {
+  return noiseReduction.enabled && noiseReduction.profile !== null;
+}
+
+/**
+ * Whether speed or pitch changes need the source time-stretched
+ */
+export function isTimeStretchActive(speed: AudioEditSettings["speed"]) {
+  return speed.mode === "stretch" && (speed.rate !== 1 || speed.pitch !== 0);
+}
+
+/**
+ * Settings that change the source buffer itself before the edit graph
+ * plays it, with inactive stages left out. Null when the source plays as is.
+ */
+export interface SourceProcessing {
+  reverse: TimeRange | null; // source range played backwards
+  noiseReduction: AudioEditSettings["noiseReduction"] | null;
+  speed: AudioEditSettings["speed"] | null;
+}
+
+export function getSourceProcessing(
+  settings: AudioEditSettings,
+): SourceProcessing | null {
+  const noiseReduction = isNoiseReductionActive(settings.noiseReduction)
+    ? settings.noiseReduction
+    : null;
+  const speed = isTimeStretchActive(settings.speed) ? settings.speed : null;
+  const reverse = settings.reverse
+    ? { start: settings.cropStart, end: settings.cropEnd }
+    : null;
+  return reverse || noiseReduction || speed
+    ? { reverse, noiseReduction, speed }
+    : null;
+}
+
+/**
+ * Source seconds per second of a buffer made by time stretching, so the
+ * edit graph can map source times onto it. Any other buffer is 1.
+ */
+const sourceTimeScales = new WeakMap<AudioBuffer, number>();
+
+function getSourceTimeScale(buffer: AudioBuffer): number {
+  return sourceTimeScales.get(buffer) ?? 1;
+}
+
+function toAudioBuffer(channels: Float32Array[], sampleRate: number) {
+  const buffer = new AudioBuffer({
+    numberOfChannels: channels.length,
+    length: channels[0]?.length || 1,
+    sampleRate,
+  });
+  channels.forEach((channel, ch) => {
+    buffer.copyToChannel(channel as Float32Array<ArrayBuffer>, ch);
+  });
+  return buffer;
+}
+
+/**
+ * Copy of the source with the reverse, noise reduction and time stretching
+ * applied, the buffer both preview and export play from. Returns the source
+ * itself when there is nothing to apply.
+ */
+export async function prepareSource(
+  sourceBuffer: AudioBuffer,
+  processing: SourceProcessing | null,
+): Promise<AudioBuffer> {
+  const { sampleRate } = sourceBuffer;
+  let buffer = sourceBuffer;
+
+  // Reversed first, so the noise profile lines up with the waveform shown
+  const reverse = processing?.reverse;
+  if (reverse) {
+    const start = Math.round(reverse.start * sampleRate);
+    const end = Math.round(reverse.end * sampleRate);
+    const channels = copyChannels(buffer);
+    for (const samples of channels) samples.subarray(start, end).reverse();
+    buffer = toAudioBuffer(channels, sampleRate);
+  }
+
+  const noiseReduction = processing?.noiseReduction;
+  if (noiseReduction && isNoiseReductionActive(noiseReduction)) {
+    const { profile, strength, smoothing } = noiseReduction;
+    const reduced = await runWorkerTask("denoise", {
+      channels: copyChannels(buffer),
+      profile: {
+        start: Math.round(profile.start * sampleRate),
+        end: Math.round(profile.end * sampleRate),
+      },
+      options: { strength, smoothing },
+    });
+    buffer = toAudioBuffer(reduced, sampleRate);
+  }
+
+  const speed = processing?.speed;
+  if (speed && isTimeStretchActive(speed)) {
+    const stretched = await runWorkerTask("stretch", {
+      channels: copyChannels(buffer),
+      sampleRate,
+      rate: speed.rate,
+      semitones: speed.pitch,
+    });
+    buffer = toAudioBuffer(stretched, sampleRate);
+    sourceTimeScales.set(buffer, speed.rate);
+  }
+  return buffer;
+}
+
+export interface ProcessOptions {
+  sampleRate?: number; // output rate, defaults to the source rate
+}
+
+/**
+ * Process audio using OfflineAudioContext: reverse, noise reduction, crop,
+ * cuts, speed and pitch, EQ, compressor, volume (or loudness normalization),
+ * fade in/out, polarity, then sample-rate conversion and the limiter
+ */
+export async function processAudio(
+  originalBuffer: AudioBuffer,
+  settings: AudioEditSettings,
+  { sampleRate: outputRate = originalBuffer.sampleRate }: ProcessOptions = {},
 ): Promise<AudioBuffer> {
-  const { cropStart, cropEnd, volume, fadeIn, fadeOut } = settings;
+  const sourceBuffer = await prepareSource(
+    originalBuffer,
+    getSourceProcessing(settings),
+  );
   const sampleRate = sourceBuffer.sampleRate;
-  const channels = sourceBuffer.numberOfChannels;
+  const channels = getChannelRouting(
+    settings.channels,
+    sourceBuffer.numberOfChannels,
+  ).length;
 
-  const startSample = Math.floor(cropStart * sampleRate);
-  const endSample = Math.floor(cropEnd * sampleRate);
-  const croppedLength = endSample - startSample;
+  let renderSettings = settings;
+  if (settings.normalize.enabled) {
+    const measurement = await measureRangesLoudness(
+      sourceBuffer,
+      getKeptRanges(settings),
+      getChannelRouting(settings.channels, sourceBuffer.numberOfChannels),
+      settings,
+    );
+    renderSettings = {
+      ...settings,
+      volume: getNormalizeGain(measurement, settings.normalize),
+    };
+  }
+
+  const timeline = getEditTimeline(settings);
+  const croppedLength = Math.floor(getOutputDuration(timeline) * sampleRate);
 
   if (croppedLength <= 0) {
     throw new Error("Crop region is empty");
@@ -82,89 +1174,96 @@ export async function processAudio(
     sampleRate,
   );
 
-  // Create buffer source
-  const source = offlineCtx.createBufferSource();
-  source.buffer = sourceBuffer;
-
-  // Create gain node for volume
-  const gainNode = offlineCtx.createGain();
-  gainNode.gain.setValueAtTime(volume, 0);
+  const graph = buildEditGraph(offlineCtx, sourceBuffer, renderSettings);
+  graph.output.connect(offlineCtx.destination);
 
-  // Apply fade in
-  if (fadeIn.enabled && fadeIn.duration > 0) {
-    const fadeDuration = Math.min(fadeIn.duration, croppedLength / sampleRate);
-    gainNode.gain.setValueAtTime(0, 0);
-
-    switch (fadeIn.curve) {
-      case "exponential":
-        // exponentialRampToValueAtTime can't start from 0
-        gainNode.gain.setValueAtTime(0.001, 0);
-        gainNode.gain.exponentialRampToValueAtTime(volume, fadeDuration);
-        break;
-      case "logarithmic":
-      case "sCurve": {
-        // Use setValueCurveAtTime for custom curves
-        const steps = 100;
-        const curveValues = new Float32Array(steps);
-        for (let i = 0; i < steps; i++) {
-          const t = i / (steps - 1);
-          curveValues[i] = applyEaseCurve(t, fadeIn.curve) * volume;
-        }
-        gainNode.gain.setValueCurveAtTime(curveValues, 0, fadeDuration);
-        break;
-      }
-      default:
-        gainNode.gain.linearRampToValueAtTime(volume, fadeDuration);
-        break;
-    }
+  let rendered = await offlineCtx.startRendering();
+  if (outputRate !== sampleRate) {
+    const resampled = await runWorkerTask("resample", {
+      channels: copyChannels(rendered),
+      fromRate: sampleRate,
+      toRate: outputRate,
+    });
+    rendered = new AudioBuffer({
+      numberOfChannels: channels,
+      length: resampled[0].length,
+      sampleRate: outputRate,
+    });
+    resampled.forEach((channel, ch) => {
+      rendered.copyToChannel(channel, ch);
+    });
   }
 
-  // Apply fade out
-  if (fadeOut.enabled && fadeOut.duration > 0) {
-    const totalDuration = croppedLength / sampleRate;
-    const fadeDuration = Math.min(fadeOut.duration, totalDuration);
-    const fadeOutStart = totalDuration - fadeDuration;
-
-    switch (fadeOut.curve) {
-      case "exponential":
-        gainNode.gain.setValueAtTime(volume, fadeOutStart);
-        gainNode.gain.exponentialRampToValueAtTime(0.001, totalDuration);
-        break;
-      case "logarithmic":
-      case "sCurve": {
-        const steps = 100;
-        const curveValues = new Float32Array(steps);
-        for (let i = 0; i < steps; i++) {
-          const t = i / (steps - 1);
-          curveValues[i] = applyEaseCurve(1 - t, fadeOut.curve) * volume;
-        }
-        gainNode.gain.setValueCurveAtTime(
-          curveValues,
-          fadeOutStart,
-          fadeDuration,
-        );
-        break;
-      }
-      default:
-        gainNode.gain.setValueAtTime(volume, fadeOutStart);
-        gainNode.gain.linearRampToValueAtTime(0, totalDuration);
-        break;
-    }
+  // Limit last so nothing after it can push samples over the ceiling
+  if (settings.limiter.enabled) {
+    const limited = await runWorkerTask("limit", {
+      channels: copyChannels(rendered),
+      sampleRate: outputRate,
+      ceiling: settings.limiter.ceiling,
+    });
+    limited.forEach((channel, ch) => {
+      rendered.copyToChannel(channel, ch);
+    });
   }
+  return rendered;
+}
+
+/**
+ * Find silent stretches of a buffer (see findSilence)
+ */
+export function detectSilence(
+  buffer: AudioBuffer,
+  threshold: number,
+  minDuration: number,
+): Promise<TimeRange[]> {
+  return runWorkerTask("silence", {
+    channels: copyChannels(buffer),
+    sampleRate: buffer.sampleRate,
+    threshold,
+    minDuration,
+  });
+}
 
-  source.connect(gainNode);
-  gainNode.connect(offlineCtx.destination);
+/**
+ * Find samples of a processed buffer that will clip on export
+ */
+export function analyzeClipping(buffer: AudioBuffer): Promise<ClippingReport> {
+  return runWorkerTask("clipping", {
+    channels: copyChannels(buffer),
+    sampleRate: buffer.sampleRate,
+  });
+}
 
-  source.start(0, cropStart, cropEnd - cropStart);
+/**
+ * Read a file into memory, reporting the fraction of bytes read so far
+ */
+async function readFileWithProgress(
+  file: File,
+  onProgress?: (progress: number) => void,
+): Promise<ArrayBuffer> {
+  if (!onProgress || file.size === 0) return file.arrayBuffer();
 
-  return offlineCtx.startRendering();
+  const bytes = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let offset = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes.set(value, offset);
+    offset += value.length;
+    onProgress(offset / file.size);
+  }
+  return bytes.buffer;
 }
 
 /**
  * Decode an audio file (File or Blob) into an AudioBuffer
  */
-export async function decodeAudioFile(file: File): Promise<AudioBuffer> {
-  const arrayBuffer = await file.arrayBuffer();
+export async function decodeAudioFile(
+  file: File,
+  onReadProgress?: (progress: number) => void,
+): Promise<AudioBuffer> {
+  const arrayBuffer = await readFileWithProgress(file, onReadProgress);
   const audioCtx = new AudioContext();
   try {
     return await audioCtx.decodeAudioData(arrayBuffer);
@@ -174,103 +1273,43 @@ export async function decodeAudioFile(file: File): Promise<AudioBuffer> {
 }
 
 /**
- * Extract waveform peaks from an AudioBuffer for visualization
+ * Encode an AudioBuffer to a WAV file Blob on the audio worker
  */
-export function extractWaveformPeaks(
+export async function audioBufferToWav(
   buffer: AudioBuffer,
-  numBuckets: number,
-): { positive: Float32Array; negative: Float32Array } {
-  const channelData = buffer.getChannelData(0); // Use first channel
-  const samplesPerBucket = Math.floor(channelData.length / numBuckets);
-  const positive = new Float32Array(numBuckets);
-  const negative = new Float32Array(numBuckets);
-
-  for (let i = 0; i < numBuckets; i++) {
-    const start = i * samplesPerBucket;
-    const end = Math.min(start + samplesPerBucket, channelData.length);
-    let max = -1;
-    let min = 1;
-
-    for (let j = start; j < end; j++) {
-      const val = channelData[j];
-      if (val > max) max = val;
-      if (val < min) min = val;
-    }
-
-    positive[i] = max;
-    negative[i] = min;
-  }
-
-  return { positive, negative };
-}
-
-/**
- * Encode an AudioBuffer to a WAV file Blob
- */
-export function audioBufferToWav(buffer: AudioBuffer): Blob {
-  const channels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const bitsPerSample = 16;
-  const bytesPerSample = bitsPerSample / 8;
-  const blockAlign = channels * bytesPerSample;
-  const dataLength = buffer.length * blockAlign;
-  const headerLength = 44;
-  const totalLength = headerLength + dataLength;
-
-  const arrayBuffer = new ArrayBuffer(totalLength);
-  const view = new DataView(arrayBuffer);
-
-  // WAV header
-  writeString(view, 0, "RIFF");
-  view.setUint32(4, totalLength - 8, true);
-  writeString(view, 8, "WAVE");
-  writeString(view, 12, "fmt ");
-  view.setUint32(16, 16, true); // fmt chunk size
-  view.setUint16(20, 1, true); // PCM format
-  view.setUint16(22, channels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * blockAlign, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, bitsPerSample, true);
-  writeString(view, 36, "data");
-  view.setUint32(40, dataLength, true);
-
-  // Interleave channels and write samples
-  let offset = 44;
-  for (let i = 0; i < buffer.length; i++) {
-    for (let ch = 0; ch < channels; ch++) {
-      const sample = buffer.getChannelData(ch)[i];
-      const clamped = Math.max(-1, Math.min(1, sample));
-      const int16 = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
-      view.setInt16(offset, int16, true);
-      offset += 2;
-    }
-  }
-
-  return new Blob([arrayBuffer], { type: "audio/wav" });
-}
-
-function writeString(view: DataView, offset: number, str: string) {
-  for (let i = 0; i < str.length; i++) {
-    view.setUint8(offset + i, str.charCodeAt(i));
-  }
+  options: WavOptions = DEFAULT_WAV_OPTIONS,
+): Promise<Blob> {
+  const wav = await runWorkerTask("encodeWav", {
+    channels: copyChannels(buffer),
+    sampleRate: buffer.sampleRate,
+    options,
+  });
+  return new Blob([wav], { type: "audio/wav" });
 }
 
 /**
  * Pick the best supported MIME type for Opus recording.
  * Preference: OGG > MP4 > WebM (WebM is last because some apps
- * like Telegram assume WebM always contains video).
+ * like Telegram assume WebM always contains video). Undefined when none
+ * is supported, leaving the choice to the browser.
  */
-function pickOpusMimeType(): string {
+export function pickOpusMimeType(): string | undefined {
   const candidates = [
     "audio/mp4;codecs=opus",
     "audio/ogg;codecs=opus",
     "audio/webm;codecs=opus",
     "audio/webm",
   ];
-  return (
-    candidates.find((t) => MediaRecorder.isTypeSupported(t)) ?? candidates[3]
-  );
+  return candidates.find((t) => MediaRecorder.isTypeSupported(t));
+}
+
+/**
+ * File extension for a blob MediaRecorder made
+ */
+export function getRecordingExtension(blob: Blob): string {
+  if (blob.type.includes("ogg")) return "ogg";
+  if (blob.type.includes("mp4")) return "m4a";
+  return "webm";
 }
 
 /**
@@ -289,7 +1328,10 @@ export async function audioBufferToOpus(buffer: AudioBuffer): Promise<Blob> {
 
     const mimeType = pickOpusMimeType();
 
-    const recorder = new MediaRecorder(dest.stream, { mimeType });
+    const recorder = new MediaRecorder(
+      dest.stream,
+      mimeType ? { mimeType } : undefined,
+    );
     const chunks: Blob[] = [];
 
     const recordingDone = new Promise<Blob>((resolve, reject) => {
@@ -297,7 +1339,7 @@ export async function audioBufferToOpus(buffer: AudioBuffer): Promise<Blob> {
         if (e.data.size > 0) chunks.push(e.data);
       };
       recorder.onstop = () => {
-        resolve(new Blob(chunks, { type: mimeType }));
+        resolve(new Blob(chunks, { type: recorder.mimeType || mimeType }));
       };
       recorder.onerror = () => reject(new Error("MediaRecorder error"));
     });
@@ -332,15 +1374,44 @@ export async function audioBufferToOpus(buffer: AudioBuffer): Promise<Blob> {
 export async function exportAudio(
   buffer: AudioBuffer,
   format: ExportFormat,
+  wavOptions?: WavOptions,
 ): Promise<{ blob: Blob; extension: string }> {
   if (format === "opus") {
     const blob = await audioBufferToOpus(buffer);
-    let extension = "webm";
-    if (blob.type.includes("ogg")) extension = "ogg";
-    else if (blob.type.includes("mp4")) extension = "m4a";
-    return { blob, extension };
+    return { blob, extension: getRecordingExtension(blob) };
   }
-  return { blob: audioBufferToWav(buffer), extension: "wav" };
+  return { blob: await audioBufferToWav(buffer, wavOptions), extension: "wav" };
+}
+
+/**
+ * Download name for an edited export of a file, e.g. "take-edited.wav"
+ */
+export function getEditedFileName(file: File, extension: string): string {
+  return `${file.name.replace(/\.[^.]+$/, "")}-edited.${extension}`;
+}
+
+/**
+ * Speaker labels in Web Audio / WAV channel order, by channel count
+ */
+const CHANNEL_LAYOUTS: Record<number, string[]> = {
+  1: ["M"],
+  2: ["L", "R"],
+  3: ["L", "R", "C"],
+  4: ["L", "R", "SL", "SR"],
+  5: ["L", "R", "C", "SL", "SR"],
+  6: ["L", "R", "C", "LFE", "SL", "SR"],
+  8: ["L", "R", "C", "LFE", "BL", "BR", "SL", "SR"],
+};
+
+/**
+ * Short label for each channel of a buffer (L/R/C/LFE…), falling back to
+ * numbered channels for layouts without a standard order
+ */
+export function getChannelLabels(numberOfChannels: number): string[] {
+  return (
+    CHANNEL_LAYOUTS[numberOfChannels] ??
+    Array.from({ length: numberOfChannels }, (_, ch) => `Ch ${ch + 1}`)
+  );
 }
 
 /**
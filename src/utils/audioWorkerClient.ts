@@ -0,0 +1,172 @@
+import type { ChannelRoute } from "./audioProcessing";
+import type { ClippingReport } from "./limiter";
+import type { LoudnessMeasurement } from "./loudness";
+import type { NoiseReductionOptions } from "./noiseReduction";
+import type { WavOptions } from "./wavEncoder";
+import type { PeakLevel } from "./waveformPeaks";
+
+export interface PeaksOutput {
+  channels: PeakLevel[][];
+  // null for mono input, whose mid is its only channel
+  mid: { samples: Float32Array; levels: PeakLevel[] } | null;
+}
+
+/**
+ * Every task the audio worker understands, with its input and output
+ */
+export interface AudioWorkerTasks {
+  peaks: {
+    input: { channels: Float32Array[] };
+    output: PeaksOutput;
+  };
+  midPeaks: {
+    input: { channels: Float32Array[]; invert: boolean[] }; // per channel
+    output: { samples: Float32Array; levels: PeakLevel[] };
+  };
+  encodeWav: {
+    input: {
+      channels: Float32Array[];
+      sampleRate: number;
+      options: WavOptions;
+    };
+    output: ArrayBuffer;
+  };
+  loudness: {
+    input: {
+      channels: Float32Array[];
+      sampleRate: number;
+      ranges: { start: number; end: number }[]; // samples, joined in order
+      invert: boolean[]; // per channel
+      routing: ChannelRoute[];
+      weights: number[]; // per output channel
+    };
+    output: LoudnessMeasurement;
+  };
+  limit: {
+    input: { channels: Float32Array[]; sampleRate: number; ceiling: number };
+    output: Float32Array<ArrayBuffer>[];
+  };
+  resample: {
+    input: { channels: Float32Array[]; fromRate: number; toRate: number };
+    output: Float32Array<ArrayBuffer>[];
+  };
+  denoise: {
+    input: {
+      channels: Float32Array[];
+      profile: { start: number; end: number }; // samples
+      options: NoiseReductionOptions;
+    };
+    output: Float32Array<ArrayBuffer>[];
+  };
+  stretch: {
+    input: {
+      channels: Float32Array[];
+      sampleRate: number;
+      rate: number;
+      semitones: number;
+    };
+    output: Float32Array<ArrayBuffer>[];
+  };
+  silence: {
+    input: {
+      channels: Float32Array[];
+      sampleRate: number;
+      threshold: number;
+      minDuration: number;
+    };
+    output: { start: number; end: number }[];
+  };
+  clipping: {
+    input: { channels: Float32Array[]; sampleRate: number };
+    output: ClippingReport;
+  };
+}
+
+export type AudioWorkerTask = keyof AudioWorkerTasks;
+
+export type AudioWorkerRequest = {
+  [K in AudioWorkerTask]: {
+    id: number;
+    task: K;
+    input: AudioWorkerTasks[K]["input"];
+  };
+}[AudioWorkerTask];
+
+export type AudioWorkerResponse =
+  | { id: number; type: "progress"; progress: number }
+  | { id: number; type: "result"; output: unknown }
+  | { id: number; type: "error"; message: string };
+
+interface PendingTask {
+  resolve: (output: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextTaskId = 1;
+const pendingTasks = new Map<number, PendingTask>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("../workers/audioWorker.ts", import.meta.url));
+  worker.onmessage = (e: MessageEvent<AudioWorkerResponse>) => {
+    const message = e.data;
+    const pending = pendingTasks.get(message.id);
+    if (!pending) return;
+
+    if (message.type === "progress") {
+      pending.onProgress?.(message.progress);
+      return;
+    }
+    pendingTasks.delete(message.id);
+    if (message.type === "result") pending.resolve(message.output);
+    else pending.reject(new Error(message.message));
+  };
+  worker.onerror = (e) => {
+    // A crashed worker fails everything in flight; the next task starts a new one
+    for (const pending of pendingTasks.values()) {
+      pending.reject(new Error(e.message || "Audio worker failed"));
+    }
+    pendingTasks.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+}
+
+/**
+ * Copy each channel of a buffer so it can be transferred to the worker
+ * without detaching the AudioBuffer's own storage
+ */
+export function copyChannels(buffer: AudioBuffer): Float32Array[] {
+  return Array.from({ length: buffer.numberOfChannels }, (_, ch) =>
+    buffer.getChannelData(ch).slice(),
+  );
+}
+
+/**
+ * Run a task on the shared audio worker. Channel arrays in the input are
+ * transferred, so callers must not use them afterwards.
+ */
+export function runWorkerTask<K extends AudioWorkerTask>(
+  task: K,
+  input: AudioWorkerTasks[K]["input"],
+  onProgress?: (progress: number) => void,
+): Promise<AudioWorkerTasks[K]["output"]> {
+  const id = nextTaskId++;
+  const transfer =
+    "channels" in input ? input.channels.map((channel) => channel.buffer) : [];
+
+  return new Promise((resolve, reject) => {
+    pendingTasks.set(id, {
+      resolve: resolve as (output: unknown) => void,
+      reject,
+      onProgress,
+    });
+    getWorker().postMessage({ id, task, input } as AudioWorkerRequest, {
+      transfer,
+    });
+  });
+}
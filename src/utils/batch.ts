@@ -0,0 +1,100 @@
+import {
+  type AudioEditSettings,
+  decodeAudioFile,
+  detectSilence,
+  type ExportFormat,
+  exportAudio,
+  getSilenceTrim,
+  MIN_EDIT_LENGTH,
+  type ProcessOptions,
+  processAudio,
+} from "./audioProcessing";
+import type { WavOptions } from "./wavEncoder";
+
+/**
+ * How each batch file is cropped: not at all, by the template's distance
+ * from the start and end, or down to the audio between leading and
+ * trailing silence
+ */
+export type BatchCropMode = "full" | "relative" | "silence";
+
+export interface BatchOptions {
+  crop: BatchCropMode;
+  trimStart: number; // seconds removed from the start, relative mode
+  trimEnd: number; // seconds removed from the end, relative mode
+  silence: { threshold: number; minDuration: number }; // silence mode
+  format: ExportFormat;
+  wavOptions: WavOptions;
+  processOptions: ProcessOptions;
+}
+
+/**
+ * Settings for one batch file from the shared template. Volume, fades and
+ * every effect apply as they are; cuts and the noise profile are times in
+ * the template's own file, so they are dropped.
+ */
+export async function getBatchSettings(
+  template: AudioEditSettings,
+  buffer: AudioBuffer,
+  options: BatchOptions,
+): Promise<AudioEditSettings> {
+  const { duration } = buffer;
+  let crop = { start: 0, end: duration };
+  if (options.crop === "relative") {
+    crop = { start: options.trimStart, end: duration - options.trimEnd };
+    if (crop.end - crop.start < MIN_EDIT_LENGTH) {
+      throw new Error("Shorter than the start and end trim");
+    }
+  } else if (options.crop === "silence") {
+    const silence = await detectSilence(
+      buffer,
+      options.silence.threshold,
+      options.silence.minDuration,
+    );
+    const trim = getSilenceTrim(silence, duration);
+    if (!trim) throw new Error("Silent throughout");
+    crop = trim;
+  }
+
+  return {
+    ...template,
+    cropStart: crop.start,
+    cropEnd: crop.end,
+    cuts: [],
+    noiseReduction: {
+      ...template.noiseReduction,
+      enabled: false,
+      profile: null,
+    },
+  };
+}
+
+/**
+ * Decode, edit and encode one batch file
+ */
+export async function processBatchFile(
+  file: File,
+  template: AudioEditSettings,
+  options: BatchOptions,
+): Promise<{ blob: Blob; extension: string }> {
+  const buffer = await decodeAudioFile(file);
+  const settings = await getBatchSettings(template, buffer, options);
+  const processed = await processAudio(
+    buffer,
+    settings,
+    options.processOptions,
+  );
+  return exportAudio(processed, options.format, options.wavOptions);
+}
+
+/**
+ * `name`, or the first "name (2).ext", "name (3).ext"… not yet in `taken`
+ */
+export function getUniqueName(name: string, taken: Set<string>): string {
+  const [, base, extension] = name.match(/^(.*?)(\.[^.]*)?$/) ?? [];
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${base} (${n})${extension ?? ""}`;
+  }
+  return candidate;
+}
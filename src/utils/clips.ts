@@ -0,0 +1,185 @@
+import type { TimeRange } from "./audioProcessing";
+import { copyChannels, runWorkerTask } from "./audioWorkerClient";
+
+/**
+ * How a clip meets the one before it: overlapped by an equal-power
+ * crossfade, or after a stretch of silence
+ */
+export type ClipJoinMode = "crossfade" | "gap";
+
+export interface ClipJoin {
+  mode: ClipJoinMode;
+  duration: number; // seconds
+}
+
+/**
+ * One imported file on the timeline. The first clip's join is unused.
+ */
+export interface Clip {
+  file: File;
+  buffer: AudioBuffer;
+  join: ClipJoin;
+}
+
+export const DEFAULT_CLIP_JOIN: ClipJoin = { mode: "crossfade", duration: 0 };
+
+export const MAX_CLIP_JOIN = 10; // seconds
+
+/**
+ * Resample a decoded clip to the timeline's sample rate on the audio worker.
+ * Clips already at that rate are returned as is.
+ */
+export async function conformClipRate(
+  buffer: AudioBuffer,
+  sampleRate: number,
+  onProgress?: (progress: number) => void,
+): Promise<AudioBuffer> {
+  if (buffer.sampleRate === sampleRate) return buffer;
+  const resampled = await runWorkerTask(
+    "resample",
+    {
+      channels: copyChannels(buffer),
+      fromRate: buffer.sampleRate,
+      toRate: sampleRate,
+    },
+    onProgress,
+  );
+  const conformed = new AudioBuffer({
+    numberOfChannels: resampled.length,
+    length: resampled[0]?.length || 1,
+    sampleRate,
+  });
+  resampled.forEach((channel, ch) => {
+    conformed.copyToChannel(channel, ch);
+  });
+  return conformed;
+}
+
+/**
+ * Samples a join overlaps (crossfade) or leaves silent (gap). Crossfades
+ * are held to half of either neighbour so each clip's fades never meet.
+ */
+function getJoinSamples(
+  join: ClipJoin,
+  previous: AudioBuffer,
+  clip: AudioBuffer,
+): { overlap: number; gap: number } {
+  const samples = Math.round(join.duration * clip.sampleRate);
+  if (join.mode === "gap") return { overlap: 0, gap: samples };
+  const limit = Math.floor(Math.min(previous.length, clip.length) / 2);
+  return { overlap: Math.min(samples, limit), gap: 0 };
+}
+
+/**
+ * Where each clip starts on the timeline and how much it overlaps the one
+ * before, in samples, plus the timeline's length
+ */
+function placeClips(clips: Clip[]): {
+  placements: { start: number; overlap: number }[];
+  length: number;
+} {
+  const placements: { start: number; overlap: number }[] = [];
+  let position = 0;
+  clips.forEach((clip, i) => {
+    let overlap = 0;
+    if (i > 0) {
+      const join = getJoinSamples(clip.join, clips[i - 1].buffer, clip.buffer);
+      overlap = join.overlap;
+      position += join.gap - overlap;
+    }
+    placements.push({ start: position, overlap });
+    position += clip.buffer.length;
+  });
+  return { placements, length: position };
+}
+
+/**
+ * Map timeline ranges from one arrangement of clips onto another. Each end
+ * moves with the clip it falls in (or the gap after it), so edits follow
+ * their clip through reordering and join changes. Ranges with an end in a
+ * removed clip, or that no longer run forwards, map to null.
+ */
+export function createClipRangeMap(
+  previous: Clip[],
+  next: Clip[],
+): (range: TimeRange) => TimeRange | null {
+  const { sampleRate } = previous[0].buffer;
+  const before = placeClips(previous).placements;
+  const after = placeClips(next);
+
+  const mapTime = (time: number, isEnd: boolean): number | null => {
+    const sample = time * sampleRate;
+    // Overlaps belong to the later clip, except for a range's end
+    let index = 0;
+    before.forEach(({ start }, i) => {
+      if (isEnd ? start < sample : start <= sample) index = i;
+    });
+    const nextIndex = next.findIndex(
+      (clip) => clip.buffer === previous[index].buffer,
+    );
+    if (nextIndex < 0) return null;
+    const moved =
+      sample - before[index].start + after.placements[nextIndex].start;
+    return Math.max(0, Math.min(after.length, moved)) / sampleRate;
+  };
+
+  return (range) => {
+    const start = mapTime(range.start, false);
+    const end = mapTime(range.end, true);
+    return start !== null && end !== null && end > start
+      ? { start, end }
+      : null;
+  };
+}
+
+/**
+ * Render clips back to back into one buffer at the first clip's sample
+ * rate (every clip must already be at it) and the widest channel count.
+ * Mono clips are copied to every channel, others leave missing channels
+ * silent.
+ */
+export function concatenateClips(clips: Clip[]): AudioBuffer {
+  const { sampleRate } = clips[0].buffer;
+  const numberOfChannels = Math.max(
+    ...clips.map((clip) => clip.buffer.numberOfChannels),
+  );
+
+  const { placements, length } = placeClips(clips);
+  const outputs = Array.from(
+    { length: numberOfChannels },
+    () => new Float32Array(Math.max(1, length)),
+  );
+  clips.forEach(({ buffer }, i) => {
+    const { start, overlap: fadeIn } = placements[i];
+    const fadeOut = placements[i + 1]?.overlap ?? 0;
+    const gains = new Float32Array(buffer.length).fill(1);
+    for (let j = 0; j < fadeIn; j++) {
+      gains[j] = Math.sin((j / fadeIn) * (Math.PI / 2));
+    }
+    for (let j = 0; j < fadeOut; j++) {
+      gains[buffer.length - fadeOut + j] = Math.cos(
+        (j / fadeOut) * (Math.PI / 2),
+      );
+    }
+
+    outputs.forEach((output, ch) => {
+      if (buffer.numberOfChannels > 1 && ch >= buffer.numberOfChannels) return;
+      const samples = buffer.getChannelData(
+        buffer.numberOfChannels === 1 ? 0 : ch,
+      );
+      for (let j = 0; j < samples.length; j++) {
+        output[start + j] += samples[j] * gains[j];
+      }
+    });
+  });
+
+  const combined = new AudioBuffer({
+    numberOfChannels,
+    length: outputs[0].length,
+    sampleRate,
+  });
+  outputs.forEach((output, ch) => {
+    combined.copyToChannel(output, ch);
+  });
+  return combined;
+}
@@ -0,0 +1,144 @@
+/**
+ * Parametric EQ bands and their frequency response. Bands map one to one
+ * onto BiquadFilterNodes; the response is computed here with the same
+ * (Audio EQ Cookbook) formulas so the curve can be drawn without a context.
+ */
+
+export type EqBandType =
+  | "highpass"
+  | "lowshelf"
+  | "peaking"
+  | "highshelf"
+  | "lowpass";
+
+export interface EqBand {
+  type: EqBandType;
+  enabled: boolean;
+  frequency: number; // Hz
+  gain: number; // dB, for shelves and peaking bands
+  q: number; // linear; shelves use a fixed slope
+}
+
+export const MIN_EQ_FREQUENCY = 20; // Hz
+export const MAX_EQ_FREQUENCY = 20000; // Hz
+export const MAX_EQ_GAIN = 18; // dB either way
+export const MIN_EQ_Q = 0.1;
+export const MAX_EQ_Q = 18;
+
+/**
+ * Which parameters a band type responds to
+ */
+export function hasEqGain(type: EqBandType): boolean {
+  return type !== "highpass" && type !== "lowpass";
+}
+
+export function hasEqQ(type: EqBandType): boolean {
+  return type !== "lowshelf" && type !== "highshelf";
+}
+
+/**
+ * Flat starting bands: filters off, shelves and peaks at 0 dB
+ */
+export function getDefaultEqBands(): EqBand[] {
+  return [
+    { type: "highpass", enabled: false, frequency: 80, gain: 0, q: 0.71 },
+    { type: "lowshelf", enabled: true, frequency: 120, gain: 0, q: 0.71 },
+    { type: "peaking", enabled: true, frequency: 400, gain: 0, q: 1 },
+    { type: "peaking", enabled: true, frequency: 1500, gain: 0, q: 1 },
+    { type: "peaking", enabled: true, frequency: 5000, gain: 0, q: 1 },
+    { type: "highshelf", enabled: true, frequency: 8000, gain: 0, q: 0.71 },
+    { type: "lowpass", enabled: false, frequency: 16000, gain: 0, q: 0.71 },
+  ];
+}
+
+/**
+ * Q as a BiquadFilterNode expects it: high- and low-pass filters take
+ * their resonance in dB rather than as a linear Q
+ */
+export function getBiquadQ(band: EqBand): number {
+  return hasEqGain(band.type) ? band.q : 20 * Math.log10(band.q);
+}
+
+/**
+ * Biquad coefficients [b0, b1, b2, a0, a1, a2] for a band
+ */
+function getCoefficients(
+  band: EqBand,
+  sampleRate: number,
+): [number, number, number, number, number, number] {
+  const frequency = Math.min(band.frequency, sampleRate / 2);
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const sin = Math.sin(w0);
+  const a = 10 ** (band.gain / 40);
+
+  switch (band.type) {
+    case "lowpass": {
+      const alpha = sin / (2 * band.q);
+      const b = (1 - cos) / 2;
+      return [b, 2 * b, b, 1 + alpha, -2 * cos, 1 - alpha];
+    }
+    case "highpass": {
+      const alpha = sin / (2 * band.q);
+      const b = (1 + cos) / 2;
+      return [b, -2 * b, b, 1 + alpha, -2 * cos, 1 - alpha];
+    }
+    case "peaking": {
+      const alpha = sin / (2 * band.q);
+      return [
+        1 + alpha * a,
+        -2 * cos,
+        1 - alpha * a,
+        1 + alpha / a,
+        -2 * cos,
+        1 - alpha / a,
+      ];
+    }
+    case "lowshelf":
+    case "highshelf": {
+      // 2 * sqrt(A) * alpha with a shelf slope of 1
+      const shelf = Math.SQRT2 * sin * Math.sqrt(a);
+      const sign = band.type === "lowshelf" ? 1 : -1;
+      return [
+        a * (a + 1 - sign * (a - 1) * cos + shelf),
+        2 * sign * a * (a - 1 - sign * (a + 1) * cos),
+        a * (a + 1 - sign * (a - 1) * cos - shelf),
+        a + 1 + sign * (a - 1) * cos + shelf,
+        -2 * sign * (a - 1 + sign * (a + 1) * cos),
+        a + 1 + sign * (a - 1) * cos - shelf,
+      ];
+    }
+  }
+}
+
+/**
+ * Combined response of the enabled bands, in dB, at each frequency
+ */
+export function getEqResponse(
+  bands: EqBand[],
+  frequencies: number[],
+  sampleRate: number,
+): number[] {
+  const response = frequencies.map(() => 0);
+  for (const band of bands) {
+    if (!band.enabled) continue;
+    const [b0, b1, b2, a0, a1, a2] = getCoefficients(band, sampleRate);
+    frequencies.forEach((frequency, i) => {
+      const w = (2 * Math.PI * frequency) / sampleRate;
+      const cos1 = Math.cos(w);
+      const sin1 = Math.sin(w);
+      const cos2 = Math.cos(2 * w);
+      const sin2 = Math.sin(2 * w);
+      const numRe = b0 + b1 * cos1 + b2 * cos2;
+      const numIm = -(b1 * sin1 + b2 * sin2);
+      const denRe = a0 + a1 * cos1 + a2 * cos2;
+      const denIm = -(a1 * sin1 + a2 * sin2);
+      response[i] +=
+        10 *
+        Math.log10(
+          (numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm),
+        );
+    });
+  }
+  return response;
+}
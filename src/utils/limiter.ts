@@ -0,0 +1,143 @@
+/**
+ * Look-ahead brickwall limiter and clipping detection. Pure functions so
+ * the audio worker can run them.
+ */
+
+export interface ClippingReport {
+  clippedSamples: number; // samples beyond full scale, across all channels
+  regions: { start: number; end: number }[]; // seconds into the audio
+}
+
+const LOOKAHEAD_TIME = 0.005; // seconds, also the attack time
+const RELEASE_TIME = 0.05; // seconds
+const CLIP_LEVEL = 1; // full scale
+const CLIP_MERGE_GAP = 0.01; // seconds between clips reported as one region
+const MAX_CLIP_REGIONS = 1000;
+const PROGRESS_INTERVAL = 65536; // samples
+
+/**
+ * Gain needed at each sample to keep every channel under the ceiling,
+ * followed by `padding` samples of unity gain
+ */
+function getRequiredGain(
+  channels: Float32Array[],
+  ceiling: number,
+  padding: number,
+) {
+  const length = channels[0]?.length ?? 0;
+  const gain = new Float32Array(length + padding).fill(1);
+  for (let i = 0; i < length; i++) {
+    let peak = 0;
+    for (const channel of channels) peak = Math.max(peak, Math.abs(channel[i]));
+    if (peak > ceiling) gain[i] = ceiling / peak;
+  }
+  return gain;
+}
+
+/**
+ * Lowest value in each window (i - windowLength, i], via a monotonic deque
+ */
+function getTrailingMinimum(values: Float32Array, windowLength: number) {
+  const result = new Float32Array(values.length);
+  const deque = new Int32Array(values.length);
+  let head = 0;
+  let tail = 0;
+  for (let i = 0; i < values.length; i++) {
+    while (tail > head && values[deque[tail - 1]] >= values[i]) tail--;
+    deque[tail++] = i;
+    while (deque[head] <= i - windowLength) head++;
+    result[i] = values[deque[head]];
+  }
+  return result;
+}
+
+/**
+ * Limit the channels in place so no sample exceeds `ceilingDb` (dBFS).
+ * The gain each sample needs is held for the look-ahead time and then
+ * averaged over it, with the audio delayed to match, so the gain ramps
+ * down across the look-ahead before each peak instead of stepping; it
+ * recovers over the release time.
+ */
+export function applyLimiter(
+  channels: Float32Array[],
+  sampleRate: number,
+  ceilingDb: number,
+  onProgress?: (progress: number) => void,
+) {
+  const ceiling = 10 ** (ceilingDb / 20);
+  const lookahead = Math.max(1, Math.round(LOOKAHEAD_TIME * sampleRate));
+  const delay = lookahead - 1;
+  const releaseCoeff = Math.exp(-1 / (RELEASE_TIME * sampleRate));
+
+  // Each value is at or below the gain of every sample in the look-ahead
+  // window that ends on it, so their average never lets a peak through
+  const held = getTrailingMinimum(
+    getRequiredGain(channels, ceiling, delay),
+    lookahead,
+  );
+
+  let windowSum = 0;
+  let envelope = 1;
+  const length = channels[0]?.length ?? 0;
+  for (let t = 0; t < held.length; t++) {
+    windowSum += held[t];
+    if (t >= lookahead) windowSum -= held[t - lookahead];
+    const i = t - delay; // the sample this window's gain applies to
+    if (i < 0) continue;
+
+    const attack = windowSum / lookahead;
+    const release = 1 - (1 - envelope) * releaseCoeff;
+    envelope = Math.min(attack, release);
+
+    for (const channel of channels) {
+      // Clamped against rounding in the running sum
+      const value = channel[i] * envelope;
+      channel[i] = Math.max(-ceiling, Math.min(ceiling, value));
+    }
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i / length);
+  }
+}
+
+/**
+ * Count samples beyond full scale and group them into regions
+ */
+export function findClipping(
+  channels: Float32Array[],
+  sampleRate: number,
+): ClippingReport {
+  const length = channels[0]?.length ?? 0;
+  const mergeGap = Math.round(CLIP_MERGE_GAP * sampleRate);
+  const regions: ClippingReport["regions"] = [];
+  let clippedSamples = 0;
+  let regionStart = -1;
+  let regionEnd = -1;
+
+  const closeRegion = () => {
+    if (regionStart >= 0 && regions.length < MAX_CLIP_REGIONS) {
+      regions.push({
+        start: regionStart / sampleRate,
+        end: (regionEnd + 1) / sampleRate,
+      });
+    }
+  };
+
+  for (let i = 0; i < length; i++) {
+    let isClipped = false;
+    for (const channel of channels) {
+      if (Math.abs(channel[i]) > CLIP_LEVEL) {
+        clippedSamples++;
+        isClipped = true;
+      }
+    }
+    if (!isClipped) continue;
+
+    if (regionStart < 0 || i - regionEnd > mergeGap) {
+      closeRegion();
+      regionStart = i;
+    }
+    regionEnd = i;
+  }
+  closeRegion();
+
+  return { clippedSamples, regions };
+}
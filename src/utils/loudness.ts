@@ -0,0 +1,275 @@
+/**
+ * Loudness measurement after ITU-R BS.1770-4 / EBU R128: K-weighted,
+ * gated integrated loudness and 4× oversampled true peak. Pure functions
+ * so the audio worker can run them.
+ */
+
+import type { ChannelRoute } from "./audioProcessing";
+import { mixToMid } from "./waveformPeaks";
+
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS, -Infinity for silence
+  truePeak: number; // dBTP, -Infinity for silence
+}
+
+const BLOCK_DURATION = 0.4; // seconds, gating block
+const BLOCK_STEPS = 4; // 75% overlap between blocks
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the absolute-gated loudness
+const LOUDNESS_OFFSET = -0.691;
+
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 12; // per phase
+const TRUE_PEAK_BLOCK = 1024; // samples skipped at once when they can't peak
+
+/**
+ * Channel weight for a channel label: surrounds count more, LFE not at all
+ */
+export function getLoudnessWeight(label: string): number {
+  if (label === "LFE") return 0;
+  if (["SL", "SR", "BL", "BR"].includes(label)) return 1.41;
+  return 1;
+}
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number];
+}
+
+/**
+ * The two K-weighting stages (high shelf, then high pass) designed for any
+ * sample rate, matching the 48 kHz coefficients in the standard
+ */
+function getKWeightingFilters(sampleRate: number): Biquad[] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b: [
+      (Vh + (Vb * K) / Q + K * K) / a0,
+      (2 * (K * K - Vh)) / a0,
+      (Vh - (Vb * K) / Q + K * K) / a0,
+    ],
+    a: [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+  return [shelf, highPass];
+}
+
+/**
+ * Mean square of the K-weighted signal over consecutive steps of
+ * `stepLength` samples
+ */
+function getStepEnergies(
+  samples: Float32Array,
+  filters: Biquad[],
+  stepLength: number,
+  onProgress?: (progress: number) => void,
+): Float64Array {
+  const numSteps = Math.floor(samples.length / stepLength);
+  const energies = new Float64Array(numSteps);
+  const state = filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+
+  for (let step = 0; step < numSteps; step++) {
+    let sum = 0;
+    for (let i = step * stepLength; i < (step + 1) * stepLength; i++) {
+      let value = samples[i];
+      for (let f = 0; f < filters.length; f++) {
+        const { b, a } = filters[f];
+        const s = state[f];
+        const y =
+          b[0] * value + b[1] * s.x1 + b[2] * s.x2 - a[0] * s.y1 - a[1] * s.y2;
+        s.x2 = s.x1;
+        s.x1 = value;
+        s.y2 = s.y1;
+        s.y1 = y;
+        value = y;
+      }
+      sum += value * value;
+    }
+    energies[step] = sum / stepLength;
+    if (onProgress && step % 64 === 0) onProgress(step / numSteps);
+  }
+  return energies;
+}
+
+function energyToLoudness(energy: number): number {
+  return energy > 0 ? LOUDNESS_OFFSET + 10 * Math.log10(energy) : -Infinity;
+}
+
+/**
+ * Gated integrated loudness of weighted, summed block energies
+ */
+function gateBlocks(blockEnergies: number[]): number {
+  const aboveAbsolute = blockEnergies.filter(
+    (energy) => energyToLoudness(energy) > ABSOLUTE_GATE,
+  );
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const mean = (energies: number[]) =>
+    energies.reduce((sum, energy) => sum + energy, 0) / energies.length;
+  const threshold = energyToLoudness(mean(aboveAbsolute)) + RELATIVE_GATE;
+  const aboveRelative = aboveAbsolute.filter(
+    (energy) => energyToLoudness(energy) > threshold,
+  );
+  return energyToLoudness(mean(aboveRelative));
+}
+
+/**
+ * Windowed-sinc interpolation kernels, one per fractional phase between
+ * two samples
+ */
+function getInterpolationPhases(): Float32Array[] {
+  return Array.from({ length: OVERSAMPLING - 1 }, (_, p) => {
+    const fraction = (p + 1) / OVERSAMPLING;
+    const kernel = new Float32Array(INTERPOLATION_TAPS);
+    for (let k = 0; k < INTERPOLATION_TAPS; k++) {
+      const t = k - INTERPOLATION_TAPS / 2 + 1 - fraction;
+      const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+      const window =
+        0.5 + 0.5 * Math.cos((Math.PI * t) / (INTERPOLATION_TAPS / 2));
+      kernel[k] = sinc * window;
+    }
+    return kernel;
+  });
+}
+
+/**
+ * Largest absolute value of the signal reconstructed between samples.
+ * Blocks whose samples can't exceed the peak found so far are skipped.
+ */
+function getTruePeak(samples: Float32Array, phases: Float32Array[]): number {
+  let peak = 0;
+  for (const sample of samples) peak = Math.max(peak, Math.abs(sample));
+
+  const maxGain = Math.max(
+    ...phases.map((kernel) =>
+      kernel.reduce((sum, tap) => sum + Math.abs(tap), 0),
+    ),
+  );
+  const half = INTERPOLATION_TAPS / 2;
+  for (let start = 0; start < samples.length; start += TRUE_PEAK_BLOCK) {
+    const end = Math.min(samples.length, start + TRUE_PEAK_BLOCK);
+    let blockPeak = 0;
+    const from = Math.max(0, start - half);
+    const to = Math.min(samples.length, end + half);
+    for (let i = from; i < to; i++) {
+      blockPeak = Math.max(blockPeak, Math.abs(samples[i]));
+    }
+    if (blockPeak * maxGain <= peak) continue;
+
+    for (let i = start; i < end; i++) {
+      for (const kernel of phases) {
+        let value = 0;
+        for (let k = 0; k < INTERPOLATION_TAPS; k++) {
+          const index = i - half + 1 + k;
+          if (index >= 0 && index < samples.length) {
+            value += samples[index] * kernel[k];
+          }
+        }
+        peak = Math.max(peak, Math.abs(value));
+      }
+    }
+  }
+  return peak;
+}
+
+/**
+ * Join the sample ranges of each source channel back to back, flip the
+ * channels marked in `invert`, and route them to output channels: each
+ * takes one source channel or the mid mix, at a gain
+ */
+export function routeRanges(
+  channels: Float32Array[],
+  ranges: { start: number; end: number }[], // samples
+  invert: boolean[],
+  routing: ChannelRoute[],
+): Float32Array[] {
+  const length = ranges.reduce(
+    (sum, range) => sum + range.end - range.start,
+    0,
+  );
+  const sources = channels.map((data, ch) => {
+    const joined = new Float32Array(length);
+    let offset = 0;
+    for (const range of ranges) {
+      joined.set(data.subarray(range.start, range.end), offset);
+      offset += range.end - range.start;
+    }
+    if (invert[ch]) {
+      for (let i = 0; i < length; i++) joined[i] = -joined[i];
+    }
+    return joined;
+  });
+  return routing.map((route) => {
+    const output =
+      route.source === "mix"
+        ? mixToMid(sources)
+        : sources[route.source].slice();
+    if (route.gain !== 1) {
+      for (let i = 0; i < length; i++) output[i] *= route.gain;
+    }
+    return output;
+  });
+}
+
+/**
+ * Measure integrated loudness and true peak. `weights` holds one channel
+ * weight per channel (see getLoudnessWeight).
+ */
+export function measureLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+  weights: number[],
+  onProgress?: (progress: number) => void,
+): LoudnessMeasurement {
+  const filters = getKWeightingFilters(sampleRate);
+  const phases = getInterpolationPhases();
+  const length = channels[0]?.length ?? 0;
+  // Clips shorter than one block are measured as a single block
+  const stepLength = Math.max(
+    1,
+    Math.min(
+      Math.round((BLOCK_DURATION * sampleRate) / BLOCK_STEPS),
+      Math.floor(length / BLOCK_STEPS),
+    ),
+  );
+
+  let truePeak = 0;
+  const channelEnergies = channels.map((samples, ch) => {
+    const report = (progress: number) =>
+      onProgress?.((ch + progress) / channels.length);
+    const energies = getStepEnergies(samples, filters, stepLength, (p) =>
+      report(p * 0.8),
+    );
+    truePeak = Math.max(truePeak, getTruePeak(samples, phases));
+    report(1);
+    return energies;
+  });
+
+  const numSteps = channelEnergies[0]?.length ?? 0;
+  const blockEnergies: number[] = [];
+  for (let step = 0; step + BLOCK_STEPS <= numSteps; step++) {
+    let energy = 0;
+    channelEnergies.forEach((energies, ch) => {
+      let sum = 0;
+      for (let s = step; s < step + BLOCK_STEPS; s++) sum += energies[s];
+      energy += (weights[ch] ?? 1) * (sum / BLOCK_STEPS);
+    });
+    blockEnergies.push(energy);
+  }
+
+  return {
+    integrated: gateBlocks(blockEnergies),
+    truePeak: truePeak > 0 ? 20 * Math.log10(truePeak) : -Infinity,
+  };
+}
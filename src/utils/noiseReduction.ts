@@ -0,0 +1,224 @@
+/**
+ * Spectral-subtraction noise reduction on raw channel data. Pure functions
+ * so the audio worker can run them.
+ */
+
+const FFT_SIZE = 2048;
+const HOP_SIZE = FFT_SIZE / 4;
+const BINS = FFT_SIZE / 2 + 1;
+// Sum of the squared Hann window over overlapping frames at a 1/4 hop
+const OVERLAP_GAIN = 1.5;
+// Subtract more than the measured noise so its peaks are covered too
+const OVER_SUBTRACTION = 2;
+const GAIN_FLOOR = 10 ** (-30 / 20);
+const MAX_TIME_SMOOTHING = 0.9; // gain carried over from the last frame
+const MAX_FREQUENCY_SMOOTHING = 4; // bins averaged on each side
+const PROGRESS_INTERVAL = 64; // frames
+
+export interface NoiseReductionOptions {
+  strength: number; // 0 (bypass) to 1 (full subtraction)
+  smoothing: number; // 0-1, trades musical noise for smeared detail
+}
+
+interface FftTables {
+  cos: Float64Array;
+  sin: Float64Array;
+  reversed: Uint32Array;
+}
+
+function createFftTables(size: number): FftTables {
+  const cos = new Float64Array(size / 2);
+  const sin = new Float64Array(size / 2);
+  for (let k = 0; k < size / 2; k++) {
+    cos[k] = Math.cos((2 * Math.PI * k) / size);
+    sin[k] = Math.sin((2 * Math.PI * k) / size);
+  }
+  const bits = Math.log2(size);
+  const reversed = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+    reversed[i] = r;
+  }
+  return { cos, sin, reversed };
+}
+
+/**
+ * In-place radix-2 FFT. The inverse is left unscaled.
+ */
+function fft(
+  re: Float64Array,
+  im: Float64Array,
+  { cos, sin, reversed }: FftTables,
+  inverse: boolean,
+) {
+  const n = re.length;
+  for (let i = 0; i < n; i++) {
+    const j = reversed[i];
+    if (j <= i) continue;
+    [re[i], re[j]] = [re[j], re[i]];
+    [im[i], im[j]] = [im[j], im[i]];
+  }
+  const sign = inverse ? 1 : -1;
+  for (let size = 2; size <= n; size *= 2) {
+    const half = size / 2;
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * step];
+        const wi = sign * sin[k * step];
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+function createHannWindow(size: number): Float64Array {
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return window;
+}
+
+/**
+ * Load one windowed frame, reading zeros outside [0, end)
+ */
+function loadFrame(
+  samples: Float32Array,
+  start: number,
+  end: number,
+  window: Float64Array,
+  re: Float64Array,
+  im: Float64Array,
+) {
+  for (let i = 0; i < FFT_SIZE; i++) {
+    const index = start + i;
+    re[i] = index >= 0 && index < end ? samples[index] * window[i] : 0;
+    im[i] = 0;
+  }
+}
+
+/**
+ * Average power per frequency bin over a noise-only stretch of samples
+ */
+function measureNoise(
+  samples: Float32Array,
+  from: number,
+  to: number,
+  window: Float64Array,
+  tables: FftTables,
+): Float64Array {
+  const noise = new Float64Array(BINS);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  let frames = 0;
+  // Profiles shorter than a frame are measured zero-padded
+  for (let start = from; frames === 0 || start + FFT_SIZE <= to; ) {
+    loadFrame(samples, start, to, window, re, im);
+    fft(re, im, tables, false);
+    for (let k = 0; k < BINS; k++) noise[k] += re[k] * re[k] + im[k] * im[k];
+    frames++;
+    start += HOP_SIZE;
+  }
+  for (let k = 0; k < BINS; k++) noise[k] /= frames;
+  return noise;
+}
+
+function reduceChannel(
+  samples: Float32Array,
+  noise: Float64Array,
+  { strength, smoothing }: NoiseReductionOptions,
+  window: Float64Array,
+  tables: FftTables,
+  onProgress?: (progress: number) => void,
+): Float32Array<ArrayBuffer> {
+  const length = samples.length;
+  const output = new Float32Array(length);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const rawGains = new Float64Array(BINS);
+  const gains = new Float64Array(BINS).fill(1);
+  const timeSmoothing = smoothing * MAX_TIME_SMOOTHING;
+  const radius = Math.round(smoothing * MAX_FREQUENCY_SMOOTHING);
+  const scale = 1 / (FFT_SIZE * OVERLAP_GAIN);
+
+  // Start before the audio so every sample is covered by a full overlap
+  const firstStart = HOP_SIZE - FFT_SIZE;
+  const numFrames = Math.ceil((length - firstStart) / HOP_SIZE);
+  for (let frame = 0; frame < numFrames; frame++) {
+    const start = firstStart + frame * HOP_SIZE;
+    loadFrame(samples, start, length, window, re, im);
+    fft(re, im, tables, false);
+
+    for (let k = 0; k < BINS; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      const remaining =
+        power > 0 ? 1 - (OVER_SUBTRACTION * noise[k]) / power : 0;
+      rawGains[k] = Math.max(GAIN_FLOOR, Math.sqrt(Math.max(0, remaining)));
+    }
+    for (let k = 0; k < BINS; k++) {
+      const from = Math.max(0, k - radius);
+      const to = Math.min(BINS - 1, k + radius);
+      let sum = 0;
+      for (let j = from; j <= to; j++) sum += rawGains[j];
+      gains[k] =
+        timeSmoothing * gains[k] +
+        (1 - timeSmoothing) * (sum / (to - from + 1));
+
+      const gain = 1 - strength * (1 - gains[k]);
+      re[k] *= gain;
+      im[k] *= gain;
+      // Mirror bins keep the spectrum conjugate-symmetric
+      if (k > 0 && k < FFT_SIZE / 2) {
+        re[FFT_SIZE - k] *= gain;
+        im[FFT_SIZE - k] *= gain;
+      }
+    }
+
+    fft(re, im, tables, true);
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const index = start + i;
+      if (index >= 0 && index < length) {
+        output[index] += re[i] * window[i] * scale;
+      }
+    }
+    if (onProgress && frame % PROGRESS_INTERVAL === 0) {
+      onProgress(frame / numFrames);
+    }
+  }
+  return output;
+}
+
+/**
+ * Reduce steady background noise in each channel by subtracting the
+ * spectrum measured over the noise-only `profile` (samples) of that channel
+ */
+export function reduceNoise(
+  channels: Float32Array[],
+  profile: { start: number; end: number },
+  options: NoiseReductionOptions,
+  onProgress?: (channel: number, progress: number) => void,
+): Float32Array<ArrayBuffer>[] {
+  const window = createHannWindow(FFT_SIZE);
+  const tables = createFftTables(FFT_SIZE);
+  return channels.map((samples, ch) => {
+    const noise = measureNoise(
+      samples,
+      Math.max(0, profile.start),
+      Math.min(samples.length, profile.end),
+      window,
+      tables,
+    );
+    return reduceChannel(samples, noise, options, window, tables, (p) =>
+      onProgress?.(ch, p),
+    );
+  });
+}
@@ -0,0 +1,441 @@
+import {
+  type AudioEditSettings,
+  BALANCE_RANGE,
+  type ChannelMode,
+  COMPRESSOR_RANGES,
+  type EaseCurve,
+  type ExportFormat,
+  getDefaultSettings,
+  LIMITER_CEILING_RANGE,
+  LOUDNESS_TARGETS,
+  MAX_FADE_DURATION,
+  MIN_EDIT_LENGTH,
+  NOISE_REDUCTION_RANGE,
+  PITCH_RANGE,
+  type SettingRange,
+  SPEED_RATE_RANGE,
+  type SpeedMode,
+  TRUE_PEAK_CEILINGS,
+  VOLUME_RANGE,
+} from "./audioProcessing";
+import {
+  type EqBand,
+  type EqBandType,
+  getDefaultEqBands,
+  MAX_EQ_FREQUENCY,
+  MAX_EQ_GAIN,
+  MAX_EQ_Q,
+  MIN_EQ_FREQUENCY,
+  MIN_EQ_Q,
+} from "./equalizer";
+import {
+  DEFAULT_WAV_OPTIONS,
+  type WavBitDepth,
+  type WavOptions,
+} from "./wavEncoder";
+
+/**
+ * Version written into every preset. Bump it when a field changes meaning;
+ * fields that are only added need no bump, since missing ones fall back to
+ * their defaults.
+ */
+export const PRESET_VERSION = 1;
+
+const STORAGE_KEY = "simple-audio-editor:presets";
+
+/**
+ * Settings minus those that only make sense for one file: crop, cuts and
+ * the noise profile, which are all source times
+ */
+export type PresetSettings = Omit<
+  AudioEditSettings,
+  "cropStart" | "cropEnd" | "cuts" | "noiseReduction"
+> & {
+  noiseReduction: Omit<AudioEditSettings["noiseReduction"], "profile">;
+};
+
+export interface PresetExport {
+  format: ExportFormat;
+  wavOptions: WavOptions;
+  sampleRate: number | null; // null keeps the source rate
+}
+
+export interface Preset {
+  version: number;
+  name: string;
+  settings: PresetSettings;
+  export: PresetExport;
+}
+
+export function createPreset(
+  name: string,
+  settings: AudioEditSettings,
+  exportOptions: PresetExport,
+): Preset {
+  const { cropStart, cropEnd, cuts, noiseReduction, ...rest } = settings;
+  const { profile, ...noiseOptions } = noiseReduction;
+  return {
+    version: PRESET_VERSION,
+    name,
+    settings: { ...rest, noiseReduction: noiseOptions },
+    export: exportOptions,
+  };
+}
+
+/**
+ * The current file's settings with a preset laid over them. Crop and cuts
+ * stay; noise reduction keeps the file's profile and stays off without one.
+ */
+export function applyPreset(
+  preset: Preset,
+  settings: AudioEditSettings,
+): AudioEditSettings {
+  const { profile } = settings.noiseReduction;
+  return {
+    ...settings,
+    ...preset.settings,
+    noiseReduction: {
+      ...preset.settings.noiseReduction,
+      enabled: preset.settings.noiseReduction.enabled && profile !== null,
+      profile,
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Field readers for untrusted JSON: each returns `fallback` for a missing
+ * or mistyped value, and clamps numbers to the range its control allows
+ */
+function readBoolean(value: unknown, fallback: boolean): boolean {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+function readNumber(
+  value: unknown,
+  fallback: number,
+  min: number,
+  max: number,
+): number {
+  if (!isFiniteNumber(value)) return fallback;
+  return Math.max(min, Math.min(max, value));
+}
+
+function readInRange(
+  value: unknown,
+  fallback: number,
+  range: SettingRange,
+): number {
+  return readNumber(value, fallback, range.min, range.max);
+}
+
+function readOption<T extends string | number>(
+  value: unknown,
+  fallback: T,
+  options: readonly T[],
+): T {
+  return options.find((option) => option === value) ?? fallback;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function readGroup(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+const EQ_BAND_TYPES: readonly EqBandType[] = [
+  "highpass",
+  "lowshelf",
+  "peaking",
+  "highshelf",
+  "lowpass",
+];
+const MAX_EQ_BANDS = 16;
+const SPEED_MODES: readonly SpeedMode[] = ["resample", "stretch"];
+const EASE_CURVES: readonly EaseCurve[] = [
+  "linear",
+  "exponential",
+  "logarithmic",
+  "sCurve",
+];
+const CHANNEL_MODES: readonly ChannelMode[] = [
+  "keep",
+  "mono",
+  "extract",
+  "swap",
+  "duplicate",
+];
+const MAX_CHANNELS = 32; // the most a Web Audio buffer may have
+
+/**
+ * A band only counts when every field is there; its values are clamped
+ */
+function readEqBand(value: unknown): EqBand | null {
+  if (
+    !isRecord(value) ||
+    typeof value.enabled !== "boolean" ||
+    !isFiniteNumber(value.frequency) ||
+    !isFiniteNumber(value.gain) ||
+    !isFiniteNumber(value.q)
+  ) {
+    return null;
+  }
+  const type = EQ_BAND_TYPES.find((option) => option === value.type);
+  if (!type) return null;
+  return {
+    type,
+    enabled: value.enabled,
+    frequency: Math.max(
+      MIN_EQ_FREQUENCY,
+      Math.min(MAX_EQ_FREQUENCY, value.frequency),
+    ),
+    gain: Math.max(-MAX_EQ_GAIN, Math.min(MAX_EQ_GAIN, value.gain)),
+    q: Math.max(MIN_EQ_Q, Math.min(MAX_EQ_Q, value.q)),
+  };
+}
+
+/**
+ * The bands as a whole, or the default bands if any one is unreadable
+ */
+function readEqBands(value: unknown): EqBand[] {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.length > MAX_EQ_BANDS
+  ) {
+    return getDefaultEqBands();
+  }
+  const bands = value.map(readEqBand);
+  return bands.every((band) => band !== null)
+    ? (bands as EqBand[])
+    : getDefaultEqBands();
+}
+
+function readFade(
+  value: unknown,
+  fallback: AudioEditSettings["fadeIn"],
+): AudioEditSettings["fadeIn"] {
+  const fade = readGroup(value);
+  return {
+    enabled: readBoolean(fade.enabled, fallback.enabled),
+    duration: readNumber(
+      fade.duration,
+      fallback.duration,
+      MIN_EDIT_LENGTH,
+      MAX_FADE_DURATION,
+    ),
+    curve: readOption(fade.curve, fallback.curve, EASE_CURVES),
+  };
+}
+
+/**
+ * Every numeric compressor parameter, clamped to its slider range
+ */
+function readCompressorParams(
+  value: Record<string, unknown>,
+  fallback: AudioEditSettings["compressor"],
+) {
+  const params = {} as Record<keyof typeof COMPRESSOR_RANGES, number>;
+  for (const key of Object.keys(COMPRESSOR_RANGES) as (keyof typeof params)[]) {
+    params[key] = readInRange(
+      value[key],
+      fallback[key],
+      COMPRESSOR_RANGES[key],
+    );
+  }
+  return params;
+}
+
+/**
+ * Preset settings read from parsed JSON, field by field. Anything missing,
+ * mistyped or not one of the allowed values keeps its value in `fallback`.
+ */
+export function readPresetSettings(
+  value: unknown,
+  fallback: PresetSettings,
+): PresetSettings {
+  const data = readGroup(value);
+  const speed = readGroup(data.speed);
+  const eq = readGroup(data.eq);
+  const compressor = readGroup(data.compressor);
+  const noiseReduction = readGroup(data.noiseReduction);
+  const channels = readGroup(data.channels);
+  const normalize = readGroup(data.normalize);
+  const limiter = readGroup(data.limiter);
+  return {
+    reverse: readBoolean(data.reverse, fallback.reverse),
+    volume: readInRange(data.volume, fallback.volume, VOLUME_RANGE),
+    speed: {
+      mode: readOption(speed.mode, fallback.speed.mode, SPEED_MODES),
+      rate: readInRange(speed.rate, fallback.speed.rate, SPEED_RATE_RANGE),
+      pitch: readInRange(speed.pitch, fallback.speed.pitch, PITCH_RANGE),
+    },
+    eq: {
+      enabled: readBoolean(eq.enabled, fallback.eq.enabled),
+      bands: eq.bands === undefined ? fallback.eq.bands : readEqBands(eq.bands),
+    },
+    compressor: {
+      enabled: readBoolean(compressor.enabled, fallback.compressor.enabled),
+      ...readCompressorParams(compressor, fallback.compressor),
+    },
+    noiseReduction: {
+      enabled: readBoolean(
+        noiseReduction.enabled,
+        fallback.noiseReduction.enabled,
+      ),
+      strength: readInRange(
+        noiseReduction.strength,
+        fallback.noiseReduction.strength,
+        NOISE_REDUCTION_RANGE,
+      ),
+      smoothing: readInRange(
+        noiseReduction.smoothing,
+        fallback.noiseReduction.smoothing,
+        NOISE_REDUCTION_RANGE,
+      ),
+    },
+    channels: {
+      mode: readOption(channels.mode, fallback.channels.mode, CHANNEL_MODES),
+      channel: Math.round(
+        readNumber(
+          channels.channel,
+          fallback.channels.channel,
+          0,
+          MAX_CHANNELS - 1,
+        ),
+      ),
+      balance: readInRange(
+        channels.balance,
+        fallback.channels.balance,
+        BALANCE_RANGE,
+      ),
+    },
+    invertPolarity: Array.isArray(data.invertPolarity)
+      ? data.invertPolarity
+          .slice(0, MAX_CHANNELS)
+          .map((isInverted) => isInverted === true)
+      : fallback.invertPolarity,
+    normalize: {
+      enabled: readBoolean(normalize.enabled, fallback.normalize.enabled),
+      target: readOption(
+        normalize.target,
+        fallback.normalize.target,
+        LOUDNESS_TARGETS.map((target) => target.value),
+      ),
+      ceiling: readOption(
+        normalize.ceiling,
+        fallback.normalize.ceiling,
+        TRUE_PEAK_CEILINGS,
+      ),
+    },
+    limiter: {
+      enabled: readBoolean(limiter.enabled, fallback.limiter.enabled),
+      ceiling: readInRange(
+        limiter.ceiling,
+        fallback.limiter.ceiling,
+        LIMITER_CEILING_RANGE,
+      ),
+    },
+    fadeIn: readFade(data.fadeIn, fallback.fadeIn),
+    fadeOut: readFade(data.fadeOut, fallback.fadeOut),
+  };
+}
+
+const EXPORT_FORMATS: readonly ExportFormat[] = ["wav", "opus"];
+const WAV_BIT_DEPTHS: readonly WavBitDepth[] = [16, 24, 32];
+const MIN_SAMPLE_RATE = 8000; // Hz
+const MAX_SAMPLE_RATE = 96000; // Hz
+
+function readPresetExport(
+  value: unknown,
+  fallback: PresetExport,
+): PresetExport {
+  const data = readGroup(value);
+  const wavOptions = readGroup(data.wavOptions);
+  return {
+    format: readOption(data.format, fallback.format, EXPORT_FORMATS),
+    wavOptions: {
+      bitDepth: readOption(
+        wavOptions.bitDepth,
+        fallback.wavOptions.bitDepth,
+        WAV_BIT_DEPTHS,
+      ),
+      noiseShaping: readBoolean(
+        wavOptions.noiseShaping,
+        fallback.wavOptions.noiseShaping,
+      ),
+    },
+    sampleRate: isFiniteNumber(data.sampleRate)
+      ? Math.round(
+          Math.max(MIN_SAMPLE_RATE, Math.min(MAX_SAMPLE_RATE, data.sampleRate)),
+        )
+      : data.sampleRate === null
+        ? null
+        : fallback.sampleRate,
+  };
+}
+
+const DEFAULT_PRESET_EXPORT: PresetExport = {
+  format: "wav",
+  wavOptions: DEFAULT_WAV_OPTIONS,
+  sampleRate: null,
+};
+
+/**
+ * Read a preset from parsed JSON, with anything missing or invalid set to
+ * its default. Throws for data that isn't a preset or comes from a newer
+ * version.
+ */
+export function parsePreset(data: unknown): Preset {
+  if (!isRecord(data) || typeof data.version !== "number") {
+    throw new Error("Not a preset file");
+  }
+  if (data.version > PRESET_VERSION) {
+    throw new Error("Preset was saved by a newer version of the editor");
+  }
+  if (typeof data.name !== "string" || !data.name.trim()) {
+    throw new Error("Preset has no name");
+  }
+  // The duration only sizes the fades, which every preset sets anyway
+  const defaults = createPreset(
+    data.name,
+    getDefaultSettings(10),
+    DEFAULT_PRESET_EXPORT,
+  );
+  return {
+    version: PRESET_VERSION,
+    name: data.name.trim(),
+    settings: readPresetSettings(data.settings, defaults.settings),
+    export: readPresetExport(data.export, defaults.export),
+  };
+}
+
+/**
+ * Presets saved in this browser; unreadable entries are skipped
+ */
+export function loadStoredPresets(): Preset[] {
+  try {
+    const stored: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "[]",
+    );
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((data) => {
+      try {
+        return [parsePreset(data)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function storePresets(presets: Preset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
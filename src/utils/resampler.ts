@@ -0,0 +1,89 @@
+/**
+ * Band-limited sample-rate conversion with a Kaiser-windowed sinc kernel.
+ * Pure functions so the audio worker can run them.
+ */
+
+const ZERO_CROSSINGS = 32; // kernel half-width, in zero crossings
+const TABLE_RESOLUTION = 512; // kernel points per zero crossing
+const KAISER_BETA = 9; // ~90 dB stopband
+const ROLLOFF = 0.95; // cutoff, as a fraction of the lower Nyquist rate
+const PROGRESS_INTERVAL = 16384; // output samples
+
+/**
+ * Zeroth-order modified Bessel function of the first kind
+ */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 32; k++) {
+    term *= (x / (2 * k)) ** 2;
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+let kernelTable: Float32Array | null = null;
+
+/**
+ * One side of the windowed sinc, sampled finely enough to interpolate
+ * linearly at any fractional position
+ */
+function getKernelTable(): Float32Array {
+  if (kernelTable) return kernelTable;
+  const size = ZERO_CROSSINGS * TABLE_RESOLUTION;
+  // One extra zero so interpolation never reads past the end
+  const table = new Float32Array(size + 2);
+  const norm = besselI0(KAISER_BETA);
+  for (let i = 0; i <= size; i++) {
+    const u = i / TABLE_RESOLUTION;
+    const sinc = u === 0 ? 1 : Math.sin(Math.PI * u) / (Math.PI * u);
+    const r = u / ZERO_CROSSINGS;
+    const window = besselI0(KAISER_BETA * Math.sqrt(1 - r * r)) / norm;
+    table[i] = sinc * window;
+  }
+  kernelTable = table;
+  return table;
+}
+
+/**
+ * Resample one channel from `fromRate` to `toRate`. The cutoff sits just
+ * under the lower of the two Nyquist rates, so downsampling removes
+ * everything that would alias.
+ */
+export function resample(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+  onProgress?: (progress: number) => void,
+): Float32Array {
+  if (fromRate === toRate) return input.slice();
+
+  const table = getKernelTable();
+  const cutoff = Math.min(1, toRate / fromRate) * ROLLOFF;
+  const halfWidth = ZERO_CROSSINGS / cutoff; // input samples
+  const step = fromRate / toRate;
+  const outputLength = Math.round((input.length * toRate) / fromRate);
+  const output = new Float32Array(outputLength);
+  const tableScale = cutoff * TABLE_RESOLUTION;
+
+  for (let n = 0; n < outputLength; n++) {
+    const center = n * step;
+    const first = Math.max(0, Math.ceil(center - halfWidth));
+    const last = Math.min(input.length - 1, Math.floor(center + halfWidth));
+    let sum = 0;
+    for (let k = first; k <= last; k++) {
+      const position = Math.abs(center - k) * tableScale;
+      const index = Math.floor(position);
+      const fraction = position - index;
+      sum +=
+        input[k] *
+        (table[index] + (table[index + 1] - table[index]) * fraction);
+    }
+    output[n] = sum * cutoff;
+    if (onProgress && n % PROGRESS_INTERVAL === 0) {
+      onProgress(n / outputLength);
+    }
+  }
+  return output;
+}
@@ -0,0 +1,213 @@
+import type { AudioEditSettings } from "./audioProcessing";
+import type { ClipJoin } from "./clips";
+import { readPresetSettings } from "./presets";
+
+/**
+ * Auto-saved editing sessions in IndexedDB. The source files are stored as
+ * they were opened (compressed, and decoding them again gives the same
+ * audio), separately from the small, often rewritten edit state.
+ */
+
+const DB_NAME = "simple-audio-editor";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const SESSION_AUDIO = "sessionAudio";
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  updatedAt: number; // ms since the epoch
+  duration: number; // seconds of source audio
+  size: number; // bytes of stored source files
+}
+
+interface SessionRecord extends SessionSummary {
+  settings: AudioEditSettings;
+  joins: ClipJoin[]; // one per clip, in order
+}
+
+interface SessionAudioRecord {
+  id: string;
+  files: File[]; // one per clip, in order
+}
+
+export interface StoredSession {
+  id: string;
+  name: string;
+  settings: AudioEditSettings;
+  clips: { file: File; join: ClipJoin }[];
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SESSIONS, { keyPath: "id" });
+      request.result.createObjectStore(SESSION_AUDIO, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Settles once a transaction commits, or fails with why it aborted (e.g.
+ * a QuotaExceededError)
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new DOMException("Aborted", "AbortError"));
+  });
+}
+
+/**
+ * Whether a save failed because browser storage is full
+ */
+export function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "QuotaExceededError";
+}
+
+/**
+ * Saved sessions, most recently changed first
+ */
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDatabase();
+  const records = await requestResult<SessionRecord[]>(
+    db.transaction(SESSIONS).objectStore(SESSIONS).getAll(),
+  );
+  return records
+    .map(({ id, name, updatedAt, duration, size }) => ({
+      id,
+      name,
+      updatedAt,
+      duration,
+      size,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadSession(id: string): Promise<StoredSession> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS, SESSION_AUDIO]);
+  const [record, audio] = await Promise.all([
+    requestResult<SessionRecord | undefined>(
+      transaction.objectStore(SESSIONS).get(id),
+    ),
+    requestResult<SessionAudioRecord | undefined>(
+      transaction.objectStore(SESSION_AUDIO).get(id),
+    ),
+  ]);
+  if (!record || !audio) throw new Error("Session not found");
+  return {
+    id,
+    name: record.name,
+    settings: record.settings,
+    clips: audio.files.map((file, i) => ({
+      file,
+      join: record.joins[i],
+    })),
+  };
+}
+
+/**
+ * A session's stored settings over `fallback` one group at a time, so a
+ * setting (or a field in a group) added since it was saved gets its default
+ */
+export function restoreSettings(
+  stored: Partial<AudioEditSettings>,
+  fallback: AudioEditSettings,
+): AudioEditSettings {
+  const shared = readPresetSettings(stored, fallback);
+  const profile = stored.noiseReduction?.profile ?? null;
+  return {
+    ...shared,
+    cropStart: stored.cropStart ?? fallback.cropStart,
+    cropEnd: stored.cropEnd ?? fallback.cropEnd,
+    cuts: stored.cuts ?? fallback.cuts,
+    noiseReduction: {
+      ...shared.noiseReduction,
+      enabled: shared.noiseReduction.enabled && profile !== null,
+      profile,
+    },
+  };
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS, SESSION_AUDIO], "readwrite");
+  transaction.objectStore(SESSIONS).delete(id);
+  transaction.objectStore(SESSION_AUDIO).delete(id);
+  await transactionDone(transaction);
+}
+
+/**
+ * Save a session's edit state, and its source files when `withAudio` is
+ * set (they only change when clips are added or removed). Other sessions
+ * are never removed to make room; a full store fails with the
+ * QuotaExceededError, for the user to decide what to delete.
+ */
+export async function saveSession(
+  session: StoredSession & { duration: number },
+  withAudio: boolean,
+): Promise<void> {
+  const db = await openDatabase();
+  const files = session.clips.map((clip) => clip.file);
+  const record: SessionRecord = {
+    id: session.id,
+    name: session.name,
+    updatedAt: Date.now(),
+    duration: session.duration,
+    size: files.reduce((sum, file) => sum + file.size, 0),
+    settings: session.settings,
+    joins: session.clips.map((clip) => clip.join),
+  };
+
+  const transaction = db.transaction(
+    withAudio ? [SESSIONS, SESSION_AUDIO] : [SESSIONS],
+    "readwrite",
+  );
+  transaction.objectStore(SESSIONS).put(record);
+  if (withAudio) {
+    const audio: SessionAudioRecord = { id: session.id, files };
+    transaction.objectStore(SESSION_AUDIO).put(audio);
+  }
+  await transactionDone(transaction);
+}
+
+/**
+ * Bytes used and available to this site, where the browser reports them
+ */
+export async function getStorageEstimate(): Promise<{
+  usage: number;
+  quota: number;
+} | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+}
+
+/**
+ * Ask the browser not to clear saved sessions under storage pressure. It
+ * may say no; sessions are still saved, just not guaranteed to be kept.
+ */
+export async function requestPersistentStorage(): Promise<void> {
+  if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+    await navigator.storage.persist();
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Silence detection on raw channel data. Pure functions so the audio
+ * worker can run them.
+ */
+
+const WINDOW_DURATION = 0.01; // seconds per level reading
+const PROGRESS_INTERVAL = 1024; // windows
+
+/**
+ * Find every stretch at least `minDuration` seconds long where all
+ * channels stay below `thresholdDb` (dBFS, RMS over short windows)
+ */
+export function findSilence(
+  channels: Float32Array[],
+  sampleRate: number,
+  thresholdDb: number,
+  minDuration: number,
+  onProgress?: (progress: number) => void,
+): { start: number; end: number }[] {
+  const length = channels[0]?.length ?? 0;
+  const windowLength = Math.max(1, Math.round(WINDOW_DURATION * sampleRate));
+  const numWindows = Math.ceil(length / windowLength);
+  // Compare mean squares against the squared threshold to skip the log
+  const threshold = 10 ** (thresholdDb / 10);
+  const regions: { start: number; end: number }[] = [];
+  let silentFrom = -1;
+
+  const closeRegion = (endSample: number) => {
+    if (silentFrom < 0) return;
+    const start = silentFrom / sampleRate;
+    const end = endSample / sampleRate;
+    if (end - start >= minDuration) regions.push({ start, end });
+    silentFrom = -1;
+  };
+
+  for (let w = 0; w < numWindows; w++) {
+    const from = w * windowLength;
+    const to = Math.min(length, from + windowLength);
+    let loudest = 0;
+    for (const samples of channels) {
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+      loudest = Math.max(loudest, sum / (to - from));
+    }
+
+    if (loudest < threshold) {
+      if (silentFrom < 0) silentFrom = from;
+    } else {
+      closeRegion(from);
+    }
+    if (onProgress && w % PROGRESS_INTERVAL === 0) onProgress(w / numWindows);
+  }
+  closeRegion(length);
+
+  return regions;
+}
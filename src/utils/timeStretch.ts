@@ -0,0 +1,174 @@
+/**
+ * Time stretching (WSOLA) and pitch shifting on raw channel data. Pure
+ * functions so the audio worker can run them.
+ */
+
+import { resample } from "./resampler";
+
+const FRAME_DURATION = 0.04; // seconds per overlap-added frame
+const SEARCH_DURATION = 0.01; // seconds either side to look for a match
+const COARSE_STEP = 4; // samples between coarse search candidates
+const PROGRESS_INTERVAL = 256; // frames
+
+/**
+ * Position near `nominal` whose start best continues the audio at `target`,
+ * judged by cross-correlating the first `overlap` samples of the mono mix
+ */
+function findBestMatch(
+  mix: Float32Array,
+  nominal: number,
+  target: number,
+  overlap: number,
+  tolerance: number,
+): number {
+  const last = mix.length - 1;
+  const correlate = (position: number, stride: number) => {
+    let sum = 0;
+    for (let i = 0; i < overlap; i += stride) {
+      const a = position + i;
+      const b = target + i;
+      if (a > last || b > last) break;
+      sum += mix[a] * mix[b];
+    }
+    return sum;
+  };
+
+  const from = Math.max(0, nominal - tolerance);
+  const to = Math.max(from, Math.min(last, nominal + tolerance));
+  let best = from;
+  let bestScore = -Infinity;
+  // Coarse pass on a sparse grid, then refine around the winner
+  for (let position = from; position <= to; position += COARSE_STEP) {
+    const score = correlate(position, COARSE_STEP);
+    if (score > bestScore) {
+      bestScore = score;
+      best = position;
+    }
+  }
+  const coarse = best;
+  bestScore = -Infinity;
+  for (
+    let position = Math.max(from, coarse - COARSE_STEP + 1);
+    position <= Math.min(to, coarse + COARSE_STEP - 1);
+    position++
+  ) {
+    const score = correlate(position, 1);
+    if (score > bestScore) {
+      bestScore = score;
+      best = position;
+    }
+  }
+  return best;
+}
+
+/**
+ * Change the duration of every channel by `factor` (2 = twice as long)
+ * without changing pitch. Frames are aligned on the mono mix so channels
+ * stay in phase with each other.
+ */
+export function timeStretch(
+  channels: Float32Array[],
+  sampleRate: number,
+  factor: number,
+  onProgress?: (progress: number) => void,
+): Float32Array<ArrayBuffer>[] {
+  const length = channels[0]?.length ?? 0;
+  const outputLength = Math.round(length * factor);
+  const frameLength = 2 * Math.round((FRAME_DURATION * sampleRate) / 2);
+  const synthesisHop = frameLength / 2;
+  const analysisHop = synthesisHop / factor;
+  const tolerance = Math.round(SEARCH_DURATION * sampleRate);
+
+  const window = new Float32Array(frameLength);
+  for (let i = 0; i < frameLength; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameLength);
+  }
+
+  const mix = new Float32Array(length);
+  for (const samples of channels) {
+    for (let i = 0; i < length; i++) mix[i] += samples[i] / channels.length;
+  }
+
+  const outputs = channels.map(() => new Float32Array(outputLength));
+  const weights = new Float32Array(outputLength);
+  const numFrames = Math.ceil(outputLength / synthesisHop) + 1;
+  let previous = 0;
+
+  for (let frame = 0; frame < numFrames; frame++) {
+    const nominal = Math.round(frame * analysisHop);
+    const position =
+      frame === 0
+        ? 0
+        : findBestMatch(
+            mix,
+            nominal,
+            previous + synthesisHop,
+            frameLength - synthesisHop,
+            tolerance,
+          );
+    previous = position;
+
+    const outputStart = frame * synthesisHop;
+    const count = Math.min(
+      frameLength,
+      outputLength - outputStart,
+      length - position,
+    );
+    for (let ch = 0; ch < channels.length; ch++) {
+      const input = channels[ch];
+      const output = outputs[ch];
+      for (let i = 0; i < count; i++) {
+        output[outputStart + i] += input[position + i] * window[i];
+      }
+    }
+    for (
+      let i = 0;
+      i < Math.min(frameLength, outputLength - outputStart);
+      i++
+    ) {
+      weights[outputStart + i] += window[i];
+    }
+    if (onProgress && frame % PROGRESS_INTERVAL === 0) {
+      onProgress(frame / numFrames);
+    }
+  }
+
+  // Undo the window sum where frames don't overlap fully (the edges)
+  for (const output of outputs) {
+    for (let i = 0; i < outputLength; i++) {
+      if (weights[i] > 1e-3) output[i] /= weights[i];
+    }
+  }
+  return outputs;
+}
+
+/**
+ * Speed audio up by `rate` (duration divided by it) while shifting pitch by
+ * `semitones`, independently of each other: stretch so that resampling to
+ * the pitch lands on the wanted duration
+ */
+export function changeSpeedAndPitch(
+  channels: Float32Array[],
+  sampleRate: number,
+  rate: number,
+  semitones: number,
+  onProgress?: (progress: number) => void,
+): Float32Array<ArrayBuffer>[] {
+  const pitchFactor = 2 ** (semitones / 12);
+  const hasPitchShift = pitchFactor !== 1;
+  const stretchShare = hasPitchShift ? 0.5 : 1;
+
+  const stretched = timeStretch(channels, sampleRate, pitchFactor / rate, (p) =>
+    onProgress?.(p * stretchShare),
+  );
+  if (!hasPitchShift) return stretched;
+
+  return stretched.map(
+    (samples, ch) =>
+      resample(samples, sampleRate, sampleRate / pitchFactor, (p) =>
+        onProgress?.(
+          stretchShare + ((ch + p) / stretched.length) * (1 - stretchShare),
+        ),
+      ) as Float32Array<ArrayBuffer>,
+  );
+}
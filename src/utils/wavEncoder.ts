@@ -0,0 +1,158 @@
+export type WavBitDepth = 16 | 24 | 32; // 32 is IEEE float
+
+export interface WavOptions {
+  bitDepth: WavBitDepth;
+  noiseShaping: boolean; // only used when dithering down to 16 or 24 bits
+}
+
+export const DEFAULT_WAV_OPTIONS: WavOptions = {
+  bitDepth: 16,
+  noiseShaping: false,
+};
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Speaker positions (dwChannelMask) for the Web Audio channel orders the
+ * editor knows; other counts are written without positions
+ */
+const CHANNEL_MASKS: Record<number, number> = {
+  3: 0x7, // FL FR FC
+  4: 0x33, // FL FR BL BR
+  5: 0x37, // FL FR FC BL BR
+  6: 0x3f, // FL FR FC LFE BL BR
+  8: 0x63f, // FL FR FC LFE BL BR SL SR
+};
+
+/**
+ * Quantize float samples to integers with TPDF dither (±1 LSB). Noise
+ * shaping feeds the quantization error back through (1 - z⁻¹)², pushing
+ * the noise up towards frequencies the ear is less sensitive to.
+ */
+function createQuantizer(bitDepth: 16 | 24, noiseShaping: boolean) {
+  const scale = 2 ** (bitDepth - 1);
+  const min = -scale;
+  const max = scale - 1;
+  let error1 = 0;
+  let error2 = 0;
+
+  return (sample: number): number => {
+    const target = sample * scale;
+    const shaped = noiseShaping ? target - 2 * error1 + error2 : target;
+    const dither = Math.random() - Math.random();
+    const quantized = Math.max(min, Math.min(max, Math.round(shaped + dither)));
+    if (noiseShaping) {
+      // Bounded so clipped samples can't make the feedback run away
+      error2 = error1;
+      error1 = Math.max(-2, Math.min(2, quantized - shaped));
+    }
+    return quantized;
+  };
+}
+
+/**
+ * Encode planar channel data as a WAV file: 16/24-bit PCM (dithered) or
+ * 32-bit float. Files with more than two channels use
+ * WAVE_FORMAT_EXTENSIBLE so players know the speaker layout.
+ */
+export function encodeWav(
+  channelData: Float32Array[],
+  sampleRate: number,
+  { bitDepth, noiseShaping }: WavOptions = DEFAULT_WAV_OPTIONS,
+): ArrayBuffer {
+  const channels = channelData.length;
+  const length = channelData[0]?.length ?? 0;
+  const isFloat = bitDepth === 32;
+  const isExtensible = channels > 2;
+  const formatTag = isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataLength = length * blockAlign;
+
+  // Non-PCM formats need cbSize in fmt and a fact chunk
+  const fmtLength = isExtensible ? 40 : isFloat ? 18 : 16;
+  const factLength = isFloat ? 12 : 0;
+  const headerLength = 12 + 8 + fmtLength + factLength + 8;
+  const totalLength = headerLength + dataLength;
+
+  const arrayBuffer = new ArrayBuffer(totalLength);
+  const view = new DataView(arrayBuffer);
+
+  // WAV header
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, totalLength - 8, true);
+  writeString(view, 8, "WAVE");
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, fmtLength, true);
+  view.setUint16(20, isExtensible ? WAVE_FORMAT_EXTENSIBLE : formatTag, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  let offset = 36;
+  if (isExtensible) {
+    view.setUint16(offset, 22, true); // cbSize
+    view.setUint16(offset + 2, bitDepth, true); // valid bits per sample
+    view.setUint32(offset + 4, CHANNEL_MASKS[channels] ?? 0, true);
+    // SubFormat GUID: the format tag followed by the fixed KSDATAFORMAT suffix
+    view.setUint32(offset + 8, formatTag, true);
+    view.setUint16(offset + 12, 0x0000, true);
+    view.setUint16(offset + 14, 0x0010, true);
+    const suffix = [0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+    suffix.forEach((byte, i) => {
+      view.setUint8(offset + 16 + i, byte);
+    });
+    offset += 24;
+  } else if (isFloat) {
+    view.setUint16(offset, 0, true); // cbSize
+    offset += 2;
+  }
+  if (isFloat) {
+    writeString(view, offset, "fact");
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, length, true); // sample frames
+    offset += 12;
+  }
+  writeString(view, offset, "data");
+  view.setUint32(offset + 4, dataLength, true);
+  offset += 8;
+
+  // Interleave channels and write samples
+  if (isFloat) {
+    for (let i = 0; i < length; i++) {
+      for (let ch = 0; ch < channels; ch++) {
+        view.setFloat32(offset, channelData[ch][i], true);
+        offset += 4;
+      }
+    }
+    return arrayBuffer;
+  }
+
+  const quantizers = channelData.map(() =>
+    createQuantizer(bitDepth, noiseShaping),
+  );
+  for (let i = 0; i < length; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      const value = quantizers[ch](channelData[ch][i]);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return arrayBuffer;
+}
+
+function writeString(view: DataView, offset: number, str: string) {
+  for (let i = 0; i < str.length; i++) {
+    view.setUint8(offset + i, str.charCodeAt(i));
+  }
+}
@@ -0,0 +1,125 @@
+import { copyChannels, runWorkerTask } from "./audioWorkerClient";
+import {
+  buildPeakLevels,
+  mixToMid,
+  type PeakCache,
+  type WaveformCaches,
+} from "./waveformPeaks";
+
+const waveformCaches = new WeakMap<AudioBuffer, WaveformCaches>();
+const invertedMidCaches = new WeakMap<
+  AudioBuffer,
+  Map<string, { cache: PeakCache | null; ready: Promise<void> }>
+>();
+
+function getChannels(buffer: AudioBuffer): Float32Array[] {
+  return Array.from({ length: buffer.numberOfChannels }, (_, ch) =>
+    buffer.getChannelData(ch),
+  );
+}
+
+/**
+ * Build the peak caches for a buffer on the audio worker, so they are ready
+ * before the waveform first draws
+ */
+export async function prepareWaveformCaches(
+  buffer: AudioBuffer,
+  onProgress?: (progress: number) => void,
+): Promise<void> {
+  if (waveformCaches.has(buffer)) return;
+  const output = await runWorkerTask(
+    "peaks",
+    { channels: copyChannels(buffer) },
+    onProgress,
+  );
+
+  const channels = getChannels(buffer).map((samples, ch) => ({
+    samples,
+    levels: output.channels[ch],
+  }));
+  waveformCaches.set(buffer, { channels, mid: output.mid ?? channels[0] });
+}
+
+/**
+ * Peak caches for every channel of a buffer and their mid mix. Buffers that
+ * skipped prepareWaveformCaches are summarised here, once.
+ */
+export function getWaveformCaches(buffer: AudioBuffer): WaveformCaches {
+  let caches = waveformCaches.get(buffer);
+  if (!caches) {
+    const channelData = getChannels(buffer);
+    const channels = channelData.map((samples) => ({
+      samples,
+      levels: buildPeakLevels(samples),
+    }));
+    const midSamples = mixToMid(channelData);
+    caches = {
+      channels,
+      mid:
+        channels.length > 1
+          ? { samples: midSamples, levels: buildPeakLevels(midSamples) }
+          : channels[0],
+    };
+    waveformCaches.set(buffer, caches);
+  }
+  return caches;
+}
+
+/**
+ * Which channels are flipped, as a cache key; null when none are
+ */
+function getInvertKey(
+  buffer: AudioBuffer,
+  invertPolarity: boolean[],
+): string | null {
+  const inverted = getChannels(buffer).map((_, ch) => !!invertPolarity[ch]);
+  return inverted.some(Boolean) ? inverted.map(Number).join("") : null;
+}
+
+/**
+ * Build the peak cache of the mid mix with some channels' polarity flipped
+ * on the audio worker. Plain mixes come from the prepared caches, so this
+ * only does work when a channel is flipped.
+ */
+export function prepareMidCache(
+  buffer: AudioBuffer,
+  invertPolarity: boolean[],
+): Promise<void> {
+  const key = getInvertKey(buffer, invertPolarity);
+  if (key === null) return Promise.resolve();
+  let caches = invertedMidCaches.get(buffer);
+  if (!caches) {
+    caches = new Map();
+    invertedMidCaches.set(buffer, caches);
+  }
+  let entry = caches.get(key);
+  if (!entry) {
+    const built: { cache: PeakCache | null; ready: Promise<void> } = {
+      cache: null,
+      ready: runWorkerTask("midPeaks", {
+        channels: copyChannels(buffer),
+        invert: key.split("").map((flag) => flag === "1"),
+      }).then((cache) => {
+        built.cache = cache;
+      }),
+    };
+    // A failed build is tried again on next use
+    built.ready.catch(() => caches.delete(key));
+    entry = built;
+    caches.set(key, entry);
+  }
+  return entry.ready;
+}
+
+/**
+ * Peak cache of the mid mix with some channels' polarity flipped, or null
+ * while prepareMidCache is still building it
+ */
+export function getMidCache(
+  buffer: AudioBuffer,
+  invertPolarity: boolean[],
+): PeakCache | null {
+  const key = getInvertKey(buffer, invertPolarity);
+  if (key === null) return getWaveformCaches(buffer).mid;
+  return invertedMidCaches.get(buffer)?.get(key)?.cache ?? null;
+}
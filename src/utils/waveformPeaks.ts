@@ -0,0 +1,181 @@
+/**
+ * Samples summarised by one peak at the finest cached level. Views more
+ * detailed than this read the samples directly.
+ */
+const BASE_SAMPLES_PER_PEAK = 64;
+
+/**
+ * How much coarser each level is than the one before it
+ */
+const LEVEL_FACTOR = 4;
+
+/**
+ * Stop adding levels once a level has fewer peaks than this
+ */
+const MIN_LEVEL_PEAKS = 512;
+
+export interface PeakLevel {
+  samplesPerPeak: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+/**
+ * Min/max summaries of one channel at several resolutions, finest first
+ */
+export interface PeakCache {
+  samples: Float32Array;
+  levels: PeakLevel[];
+}
+
+/**
+ * Peak caches for every channel of a buffer plus their average (mid)
+ */
+export interface WaveformCaches {
+  channels: PeakCache[];
+  mid: PeakCache;
+}
+
+export interface WaveformPeaks {
+  positive: Float32Array;
+  negative: Float32Array;
+}
+
+/**
+ * Base-level peaks computed between progress reports
+ */
+const PROGRESS_INTERVAL = 16384;
+
+/**
+ * Summarise the finest level straight from the samples
+ */
+function buildBaseLevel(
+  samples: Float32Array,
+  onProgress?: (progress: number) => void,
+): PeakLevel {
+  const count = Math.ceil(samples.length / BASE_SAMPLES_PER_PEAK);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i / count);
+    const start = i * BASE_SAMPLES_PER_PEAK;
+    const end = Math.min(start + BASE_SAMPLES_PER_PEAK, samples.length);
+    let lo = samples[start];
+    let hi = samples[start];
+    for (let j = start + 1; j < end; j++) {
+      const val = samples[j];
+      if (val > hi) hi = val;
+      if (val < lo) lo = val;
+    }
+    min[i] = lo;
+    max[i] = hi;
+  }
+
+  return { samplesPerPeak: BASE_SAMPLES_PER_PEAK, min, max };
+}
+
+/**
+ * Merge every LEVEL_FACTOR peaks of a level into one
+ */
+function buildCoarserLevel(level: PeakLevel): PeakLevel {
+  const count = Math.ceil(level.min.length / LEVEL_FACTOR);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const start = i * LEVEL_FACTOR;
+    const end = Math.min(start + LEVEL_FACTOR, level.min.length);
+    let lo = level.min[start];
+    let hi = level.max[start];
+    for (let j = start + 1; j < end; j++) {
+      if (level.max[j] > hi) hi = level.max[j];
+      if (level.min[j] < lo) lo = level.min[j];
+    }
+    min[i] = lo;
+    max[i] = hi;
+  }
+
+  return { samplesPerPeak: level.samplesPerPeak * LEVEL_FACTOR, min, max };
+}
+
+/**
+ * Precompute the peak levels for one channel of samples
+ */
+export function buildPeakLevels(
+  samples: Float32Array,
+  onProgress?: (progress: number) => void,
+): PeakLevel[] {
+  const levels: PeakLevel[] = [];
+  if (samples.length > 0) {
+    let level = buildBaseLevel(samples, onProgress);
+    levels.push(level);
+    while (level.min.length > MIN_LEVEL_PEAKS) {
+      level = buildCoarserLevel(level);
+      levels.push(level);
+    }
+  }
+  return levels;
+}
+
+/**
+ * Average all channels into one mid signal
+ */
+export function mixToMid(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mid = new Float32Array(channels[0].length);
+  const gain = 1 / channels.length;
+  for (const samples of channels) {
+    for (let i = 0; i < mid.length; i++) {
+      mid[i] += samples[i] * gain;
+    }
+  }
+  return mid;
+}
+
+/**
+ * Read min/max peaks for `numPixels` columns, each covering `samplesPerPixel`
+ * samples from `startSample`, using the coarsest level that is still finer
+ * than a pixel.
+ */
+export function readPeaks(
+  cache: PeakCache,
+  startSample: number,
+  samplesPerPixel: number,
+  numPixels: number,
+): WaveformPeaks {
+  const positive = new Float32Array(numPixels);
+  const negative = new Float32Array(numPixels);
+
+  let level: PeakLevel | null = null;
+  for (const candidate of cache.levels) {
+    if (candidate.samplesPerPeak > samplesPerPixel) break;
+    level = candidate;
+  }
+
+  const values = level ? { min: level.min, max: level.max } : null;
+  const unit = level ? level.samplesPerPeak : 1;
+  const total = level ? level.min.length : cache.samples.length;
+
+  for (let i = 0; i < numPixels; i++) {
+    const from = Math.floor((startSample + i * samplesPerPixel) / unit);
+    const to = Math.max(
+      from + 1,
+      Math.floor((startSample + (i + 1) * samplesPerPixel) / unit),
+    );
+    if (from < 0 || from >= total) continue;
+
+    let hi = -1;
+    let lo = 1;
+    for (let j = from; j < Math.min(to, total); j++) {
+      const max = values ? values.max[j] : cache.samples[j];
+      const min = values ? values.min[j] : cache.samples[j];
+      if (max > hi) hi = max;
+      if (min < lo) lo = min;
+    }
+    positive[i] = hi;
+    negative[i] = lo;
+  }
+
+  return { positive, negative };
+}
@@ -0,0 +1,131 @@
+/**
+ * Minimal ZIP writer for bundling exported files. Entries are stored
+ * uncompressed: encoded audio barely deflates, and storing keeps the
+ * archive a plain concatenation of the files.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+const UTF8_NAMES_FLAG = 0x0800;
+const MAX_ZIP_SIZE = 0xffffffff; // ZIP64 is not written
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 (IEEE) of a byte array, as ZIP stores it
+ */
+function crc32(bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time and date fields for a moment, in local time
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      (Math.max(0, date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Bundle files into a ZIP archive. Names should be unique.
+ */
+export async function createZip(
+  entries: ZipEntry[],
+  modified = new Date(),
+): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const dos = toDosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const centralHeaders: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()));
+    const size = entry.data.size;
+    if (offset + LOCAL_HEADER_SIZE + name.length + size > MAX_ZIP_SIZE) {
+      throw new Error("ZIP archive would exceed 4 GB");
+    }
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed: 2.0
+    local.setUint16(6, UTF8_NAMES_FLAG, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, dos.time, true);
+    local.setUint16(12, dos.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, entry.data);
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+    const view = new DataView(central.buffer);
+    view.setUint32(0, 0x02014b50, true);
+    view.setUint16(4, 20, true); // made by
+    view.setUint16(6, 20, true); // version needed
+    view.setUint16(8, UTF8_NAMES_FLAG, true);
+    view.setUint16(10, 0, true);
+    view.setUint16(12, dos.time, true);
+    view.setUint16(14, dos.date, true);
+    view.setUint32(16, crc, true);
+    view.setUint32(20, size, true);
+    view.setUint32(24, size, true);
+    view.setUint16(28, name.length, true);
+    // Extra and comment lengths, disk number and attributes stay zero
+    view.setUint32(42, offset, true);
+    central.set(name, CENTRAL_HEADER_SIZE);
+    centralHeaders.push(central);
+
+    offset += LOCAL_HEADER_SIZE + name.length + size;
+  }
+
+  const centralSize = centralHeaders.reduce(
+    (sum, header) => sum + header.length,
+    0,
+  );
+  const end = new DataView(new ArrayBuffer(END_RECORD_SIZE));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  parts.push(...centralHeaders, end.buffer);
+
+  return new Blob(parts, { type: "application/zip" });
+}
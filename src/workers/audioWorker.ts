@@ -0,0 +1,192 @@
+import type {
+  AudioWorkerRequest,
+  AudioWorkerResponse,
+  PeaksOutput,
+} from "../utils/audioWorkerClient";
+import { applyLimiter, findClipping } from "../utils/limiter";
+import { measureLoudness, routeRanges } from "../utils/loudness";
+import { reduceNoise } from "../utils/noiseReduction";
+import { resample } from "../utils/resampler";
+import { findSilence } from "../utils/silence";
+import { changeSpeedAndPitch } from "../utils/timeStretch";
+import { encodeWav } from "../utils/wavEncoder";
+import {
+  buildPeakLevels,
+  mixToMid,
+  type PeakLevel,
+} from "../utils/waveformPeaks";
+
+/**
+ * Smallest progress step worth a message back to the page
+ */
+const PROGRESS_STEP = 0.01;
+
+function post(message: AudioWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+/**
+ * Progress reporter for tasks made of several equal parts (e.g. channels)
+ */
+function createProgress(id: number, parts: number) {
+  let lastReported = -1;
+  return (part: number, progress: number) => {
+    const overall = (part + progress) / parts;
+    if (overall - lastReported < PROGRESS_STEP) return;
+    lastReported = overall;
+    post({ id, type: "progress", progress: overall });
+  };
+}
+
+function handleRequest(request: AudioWorkerRequest) {
+  const { id } = request;
+
+  switch (request.task) {
+    case "peaks": {
+      const { channels } = request.input;
+      const hasMid = channels.length > 1;
+      const report = createProgress(id, channels.length + (hasMid ? 1 : 0));
+      const channelLevels = channels.map((samples, ch) =>
+        buildPeakLevels(samples, (progress) => report(ch, progress)),
+      );
+
+      let mid: PeaksOutput["mid"] = null;
+      if (hasMid) {
+        const samples = mixToMid(channels);
+        mid = {
+          samples,
+          levels: buildPeakLevels(samples, (progress) =>
+            report(channels.length, progress),
+          ),
+        };
+      }
+
+      const levelBuffers = (levels: PeakLevel[]) =>
+        levels.flatMap((level) => [level.min.buffer, level.max.buffer]);
+      const transfer = [
+        ...channelLevels.flatMap(levelBuffers),
+        ...(mid ? [mid.samples.buffer, ...levelBuffers(mid.levels)] : []),
+      ];
+      post(
+        { id, type: "result", output: { channels: channelLevels, mid } },
+        transfer,
+      );
+      break;
+    }
+    case "midPeaks": {
+      const { channels, invert } = request.input;
+      channels.forEach((samples, ch) => {
+        if (!invert[ch]) return;
+        for (let i = 0; i < samples.length; i++) samples[i] = -samples[i];
+      });
+      const report = createProgress(id, 1);
+      const samples = mixToMid(channels);
+      const levels = buildPeakLevels(samples, (progress) =>
+        report(0, progress),
+      );
+      post({ id, type: "result", output: { samples, levels } }, [
+        samples.buffer,
+        ...levels.flatMap((level) => [level.min.buffer, level.max.buffer]),
+      ]);
+      break;
+    }
+    case "encodeWav": {
+      const { channels, sampleRate, options } = request.input;
+      const output = encodeWav(channels, sampleRate, options);
+      post({ id, type: "result", output }, [output]);
+      break;
+    }
+    case "loudness": {
+      const { channels, sampleRate, ranges, invert, routing, weights } =
+        request.input;
+      const report = createProgress(id, 1);
+      const output = measureLoudness(
+        routeRanges(channels, ranges, invert, routing),
+        sampleRate,
+        weights,
+        (p) => report(0, p),
+      );
+      post({ id, type: "result", output });
+      break;
+    }
+    case "limit": {
+      const { channels, sampleRate, ceiling } = request.input;
+      const report = createProgress(id, 1);
+      applyLimiter(channels, sampleRate, ceiling, (p) => report(0, p));
+      post(
+        { id, type: "result", output: channels },
+        channels.map((channel) => channel.buffer),
+      );
+      break;
+    }
+    case "resample": {
+      const { channels, fromRate, toRate } = request.input;
+      const report = createProgress(id, channels.length);
+      const output = channels.map((samples, ch) =>
+        resample(samples, fromRate, toRate, (p) => report(ch, p)),
+      );
+      post(
+        { id, type: "result", output },
+        output.map((channel) => channel.buffer),
+      );
+      break;
+    }
+    case "denoise": {
+      const { channels, profile, options } = request.input;
+      const report = createProgress(id, channels.length);
+      const output = reduceNoise(channels, profile, options, report);
+      post(
+        { id, type: "result", output },
+        output.map((channel) => channel.buffer),
+      );
+      break;
+    }
+    case "stretch": {
+      const { channels, sampleRate, rate, semitones } = request.input;
+      const report = createProgress(id, 1);
+      const output = changeSpeedAndPitch(
+        channels,
+        sampleRate,
+        rate,
+        semitones,
+        (p) => report(0, p),
+      );
+      post(
+        { id, type: "result", output },
+        output.map((channel) => channel.buffer),
+      );
+      break;
+    }
+    case "silence": {
+      const { channels, sampleRate, threshold, minDuration } = request.input;
+      const report = createProgress(id, 1);
+      const output = findSilence(
+        channels,
+        sampleRate,
+        threshold,
+        minDuration,
+        (p) => report(0, p),
+      );
+      post({ id, type: "result", output });
+      break;
+    }
+    case "clipping": {
+      const { channels, sampleRate } = request.input;
+      const output = findClipping(channels, sampleRate);
+      post({ id, type: "result", output });
+      break;
+    }
+  }
+}
+
+self.addEventListener("message", (e: MessageEvent<AudioWorkerRequest>) => {
+  try {
+    handleRequest(e.data);
+  } catch (err) {
+    post({
+      id: e.data.id,
+      type: "error",
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+});